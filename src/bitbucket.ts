@@ -1,5 +1,88 @@
 import { getAuthHeader } from "./config.js";
 import axios, { AxiosInstance } from "axios";
+import { createHash } from "node:crypto";
+import {
+  BlameLine,
+  Branch,
+  BranchRestriction,
+  BuildState,
+  BuildStatus,
+  CodeSearchResult,
+  Comment,
+  Commit,
+  Deployment,
+  DiffFile,
+  DiffFormat,
+  DiffHunk,
+  DiffLineType,
+  DiffStat,
+  Environment,
+  Issue,
+  IssueKind,
+  IssuePriority,
+  IssueState,
+  Participant,
+  ParticipantStatus,
+  PipelineVariable,
+  PullRequest,
+  PullRequestTask,
+  SkippedDiffFile,
+  Tag,
+  TaskState,
+  TreeEntry,
+  User,
+  Webhook,
+  flattenServerComments,
+  mapCloudBranch,
+  mapCloudBranchRestriction,
+  mapCloudBuildStatus,
+  mapCloudCodeSearchResult,
+  mapCloudComment,
+  mapCloudCommit,
+  mapCloudDeployment,
+  mapCloudEnvironment,
+  mapCloudIssue,
+  mapCloudParticipant,
+  mapCloudPullRequest,
+  mapCloudTag,
+  mapCloudTask,
+  mapCloudTreeEntry,
+  mapCloudUser,
+  mapCloudVariable,
+  mapCloudWebhook,
+  mapServerBlameLines,
+  mapServerBranch,
+  mapServerBranchRestriction,
+  mapServerBuildStatus,
+  mapServerCodeSearchResult,
+  mapServerComment,
+  mapServerDiff,
+  mapServerCommit,
+  mapServerParticipant,
+  mapServerPullRequest,
+  mapServerTag,
+  mapServerTask,
+  mapServerTreeEntry,
+  mapServerUser,
+  mapServerWebhook,
+} from "./models.js";
+import { blameFromHistory } from "./blame.js";
+import {
+  DEFAULT_DIFF_IGNORE,
+  DiffSide,
+  diffSkipReason,
+  findDiffFile,
+  findDiffLine,
+  formatUnifiedDiff,
+  formatUnifiedHeader,
+  formatUnifiedHunk,
+  nearestDiffLines,
+  parseUnifiedDiff,
+  sliceHunk,
+  splitUnifiedDiff,
+  summarizeDiff,
+} from "./diff.js";
+import { globToRegExp, matchesGlob } from "./glob.js";
 
 export class BitbucketError extends Error {
   public readonly statusCode?: number;
@@ -7,6 +90,7 @@ export class BitbucketError extends Error {
   public readonly details: any;
   public readonly suggestion?: string;
   public readonly isRetryable: boolean;
+  public readonly retryAfterMs?: number;
 
   constructor(params: {
     message: string;
@@ -15,6 +99,7 @@ export class BitbucketError extends Error {
     details?: any;
     suggestion?: string;
     isRetryable?: boolean;
+    retryAfterMs?: number;
   }) {
     super(params.message);
     this.name = "BitbucketError";
@@ -23,6 +108,7 @@ export class BitbucketError extends Error {
     this.details = params.details;
     this.suggestion = params.suggestion;
     this.isRetryable = params.isRetryable ?? false;
+    this.retryAfterMs = params.retryAfterMs;
   }
 
   toJSON() {
@@ -34,6 +120,7 @@ export class BitbucketError extends Error {
       details: this.details,
       suggestion: this.suggestion,
       isRetryable: this.isRetryable,
+      retryAfterMs: this.retryAfterMs,
     };
   }
 }
@@ -43,6 +130,350 @@ export interface BitbucketClientOptions {
   token: string;
   baseUrl?: string; // Defaults to Bitbucket Cloud API v2
   authType?: "basic" | "bearer"; // Defaults to 'basic' for Cloud, 'bearer' for Server
+  retry?: RetryOptions;
+  diffIgnore?: string[]; // Globs diff tools skip by default; see DEFAULT_DIFF_IGNORE
+}
+
+export interface DiffOptions {
+  format?: DiffFormat; // Defaults to unified
+  include?: string[]; // Globs; only files matching one are returned
+  exclude?: string[]; // Globs; matching files are left out
+  includeIgnored?: boolean; // Also return ignore-listed and binary files
+  maxBytes?: number; // Size budget for unified and structured output
+  cursor?: string; // nextCursor from a previous call with the same filters
+}
+
+// One page of a filtered diff. Pages hold whole files, except when a single
+// file exceeds maxBytes; it is then split across pages and named in
+// truncatedPath until its last part.
+export type DiffPage = ({ diff: string } | { files: DiffFile[] } | DiffStat) & {
+  skipped: SkippedDiffFile[];
+  truncatedPath?: string;
+  nextCursor?: string;
+};
+
+export interface RetryOptions {
+  maxAttempts?: number; // Total attempts including the first; 1 disables retries
+  baseDelayMs?: number; // Initial backoff before jitter, doubled per attempt
+  maxDelayMs?: number; // Upper bound for any single wait
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+// Resolved users and Cloud member lists are reused for this long
+const USER_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Work out how long the server asked us to wait from `Retry-After` or the
+ * Cloud/Server rate-limit headers. Returns undefined when there is no hint.
+ */
+function parseRetryAfter(headers: any): number | undefined {
+  if (!headers) return undefined;
+  const get = (name: string): string | undefined => {
+    const v =
+      typeof headers.get === "function" ? headers.get(name) : headers[name];
+    return v === undefined || v === null ? undefined : String(v);
+  };
+
+  const retryAfter = get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // Epoch seconds at which the current rate-limit window resets
+  const reset = Number(get("x-ratelimit-reset"));
+  if (Number.isFinite(reset) && reset > 0) {
+    return Math.max(0, reset * 1000 - Date.now());
+  }
+
+  // Server/Data Center token bucket: one token is refilled every
+  // interval / fillRate seconds
+  const interval = Number(get("x-ratelimit-interval-seconds"));
+  const fillRate = Number(get("x-ratelimit-fillrate"));
+  if (interval > 0 && fillRate > 0) {
+    return (interval / fillRate) * 1000;
+  }
+  return undefined;
+}
+
+export interface PullRequestBuildSummary {
+  prId: number;
+  commit: string;
+  overall: BuildState | "NONE"; // NONE when no builds reported
+  counts: Record<BuildState, number>;
+  builds: BuildStatus[]; // Latest status per build key
+}
+
+export type MergeVetoKind =
+  | "STATE"
+  | "CONFLICT"
+  | "APPROVALS"
+  | "CHANGES_REQUESTED"
+  | "BUILDS"
+  | "TASKS"
+  | "RESTRICTION";
+
+export interface MergeVeto {
+  kind: MergeVetoKind;
+  message: string;
+  detail?: string;
+}
+
+export interface MergeCheck {
+  prId: number;
+  canMerge: boolean;
+  conflicted: boolean;
+  vetoes: MergeVeto[]; // Why Bitbucket would refuse the merge
+  warnings: MergeVeto[]; // Problems that do not block merging here
+  approvals: number;
+  openTaskCount: number;
+  builds: PullRequestBuildSummary["overall"];
+}
+
+export interface PaginationOptions {
+  limit?: number; // Maximum number of items to return; omit to fetch every page
+  cursor?: string; // Opaque cursor returned as nextCursor by a previous call
+}
+
+export interface PaginatedResult<T> {
+  values: T[];
+  nextCursor?: string; // Present when more items are available
+}
+
+// Fields accepted when creating or updating a Cloud issue. An empty string
+// clears assignee, component, milestone or version.
+export interface IssueInput {
+  title?: string;
+  content?: string;
+  kind?: IssueKind;
+  priority?: IssuePriority;
+  assignee?: string; // Account ID or {uuid}
+  component?: string;
+  milestone?: string;
+  version?: string;
+}
+
+export interface IssueFilter {
+  state?: IssueState | IssueState[];
+  assignee?: string; // Account ID, {uuid} or nickname
+  kind?: IssueKind;
+  priority?: IssuePriority;
+  query?: string; // Extra BBQL, ANDed with the other filters
+}
+
+// Settings for creating or updating a repository. On Server the workspace is
+// the project key and language is not supported.
+export interface RepositoryInput {
+  name?: string;
+  description?: string;
+  isPrivate?: boolean;
+  defaultBranch?: string;
+  language?: string; // Cloud only
+  project?: string; // Cloud project key within the workspace
+}
+
+export interface WebhookInput {
+  url?: string;
+  name?: string;
+  events?: string[]; // e.g. repo:push (Cloud), repo:refs_changed (Server)
+  active?: boolean;
+  secret?: string; // Empty string removes the secret
+}
+
+export interface UserResolution {
+  // `id` is what the backend expects: Cloud UUID or Server user name
+  resolved: Array<{ input: string; id: string; user: User }>;
+  unresolved: Array<{ input: string; reason: string; candidates?: User[] }>;
+}
+
+// Largest page sizes both APIs accept for every list endpoint we use
+const CLOUD_MAX_PAGELEN = 50;
+const SERVER_MAX_PAGE_LIMIT = 100;
+
+function setQueryParam(path: string, key: string, value: string): string {
+  const [base, query = ""] = path.split("?");
+  const params = new URLSearchParams(query);
+  params.set(key, value);
+  return `${base}?${params.toString()}`;
+}
+
+// Encode each segment of a repository path but keep the slashes
+function encodeFilePath(path: string): string {
+  return path
+    .split("/")
+    .filter(Boolean)
+    .map((p) => encodeURIComponent(p))
+    .join("/");
+}
+
+function splitLines(content: string): string[] {
+  return content === "" ? [] : content.replace(/\n$/, "").split("\n");
+}
+
+function bbqlString(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// Cloud identifies users by {uuid} or account ID in request bodies
+function cloudUserRef(id: string): { uuid: string } | { account_id: string } {
+  return /^\{.*\}$/.test(id) ? { uuid: id } : { account_id: id };
+}
+
+function cloudIssueBody(fields: IssueInput): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  if (fields.title !== undefined) body.title = fields.title;
+  if (fields.content !== undefined) body.content = { raw: fields.content };
+  if (fields.kind !== undefined) body.kind = fields.kind;
+  if (fields.priority !== undefined) body.priority = fields.priority;
+  if (fields.assignee !== undefined) {
+    body.assignee = fields.assignee ? cloudUserRef(fields.assignee) : null;
+  }
+  for (const key of ["component", "milestone", "version"] as const) {
+    if (fields[key] !== undefined) {
+      body[key] = fields[key] ? { name: fields[key] } : null;
+    }
+  }
+  return body;
+}
+
+// Server answers a stale `version` with 409 and an OutOfDate (or
+// InvalidVersion) exception; other 409s (merge vetoes, duplicate names) must
+// not be retried, whatever their message says
+function isVersionConflict(error: unknown): boolean {
+  if (!(error instanceof BitbucketError) || error.statusCode !== 409) {
+    return false;
+  }
+  const errors: any[] = error.details?.response?.errors ?? [];
+  return errors.some((e) =>
+    /OutOfDate|InvalidVersion/.test(e?.exceptionName ?? "")
+  );
+}
+
+// Server merge vetoes come from merge check plugins as free text
+function serverVetoKind(text: string): MergeVetoKind {
+  if (/conflict/i.test(text)) return "CONFLICT";
+  if (/needs work|changes requested/i.test(text)) return "CHANGES_REQUESTED";
+  if (/approv/i.test(text)) return "APPROVALS";
+  if (/build/i.test(text)) return "BUILDS";
+  if (/task/i.test(text)) return "TASKS";
+  return "RESTRICTION";
+}
+
+// Reviewers first, then everyone else who took part. Server keeps reviewers
+// out of `participants`; on Cloud they appear in both lists.
+function pullRequestParticipants(pr: PullRequest): Participant[] {
+  const reviewerIds = new Set(pr.reviewers.map((r) => r.user.id));
+  return [
+    ...pr.reviewers,
+    ...pr.participants.filter((p) => !reviewerIds.has(p.user.id)),
+  ];
+}
+
+function mapPage<R, T>(
+  page: PaginatedResult<R>,
+  map: (raw: R) => T
+): PaginatedResult<T> {
+  return { ...page, values: page.values.map((v) => map(v)) };
+}
+
+// `scope` names the listing a paginate() cursor was issued for
+function encodeCursor(path: string, skip: number, scope?: string): string {
+  return Buffer.from(JSON.stringify({ path, skip, scope })).toString(
+    "base64url"
+  );
+}
+
+// A listing's path and query without the paging parameters, which change
+// from page to page
+function cursorScope(path: string): string {
+  const [base, search = ""] = path.split("?");
+  const params = new URLSearchParams(search);
+  for (const name of ["page", "pagelen", "start", "limit"]) {
+    params.delete(name);
+  }
+  params.sort();
+  const query = params.toString();
+  return query ? `${base}?${query}` : base;
+}
+
+function invalidCursor(cursor: string): BitbucketError {
+  return new BitbucketError({
+    message: "Invalid pagination cursor",
+    errorType: "VALIDATION_ERROR",
+    details: { cursor },
+    suggestion:
+      "Pass the nextCursor value from a previous response unchanged, or omit cursor to start from the first page.",
+    isRetryable: false,
+  });
+}
+
+// Cursors carry a path relative to baseUrl, or an absolute URL on the same
+// origin for Server plugin APIs; anything else is rejected so a crafted
+// cursor cannot send our credentials elsewhere
+function decodeCursor(
+  cursor: string,
+  origin: string
+): { path: string; skip: number; scope?: string } {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8")
+    );
+    if (
+      typeof decoded?.path === "string" &&
+      (decoded.path.startsWith("/") || decoded.path.startsWith(`${origin}/`)) &&
+      Number.isInteger(decoded.skip) &&
+      decoded.skip >= 0 &&
+      (decoded.scope === undefined || typeof decoded.scope === "string")
+    ) {
+      return { path: decoded.path, skip: decoded.skip, scope: decoded.scope };
+    }
+  } catch {
+    // fallthrough to validation error
+  }
+  throw invalidCursor(cursor);
+}
+
+// Diff cursors also record where to resume inside a file split across
+// pages, the filters that produced the file list `skip` indexes into, and a
+// hash of the diff itself so a branch that moved in between is noticed
+interface DiffCursor {
+  path: string;
+  skip: number;
+  hunk: number;
+  line: number;
+  filter: string;
+  diff: string;
+}
+
+function encodeDiffCursor(cursor: DiffCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeDiffCursor(cursor: string, origin: string): DiffCursor {
+  const { path, skip } = decodeCursor(cursor, origin);
+  const { hunk, line, filter, diff } = JSON.parse(
+    Buffer.from(cursor, "base64url").toString("utf-8")
+  );
+  if (
+    !Number.isInteger(hunk) ||
+    hunk < 0 ||
+    !Number.isInteger(line) ||
+    line < 0 ||
+    typeof filter !== "string" ||
+    typeof diff !== "string"
+  ) {
+    throw invalidCursor(cursor);
+  }
+  return { path, skip, hunk, line, filter, diff };
 }
 
 export class BitbucketClient {
@@ -52,6 +483,14 @@ export class BitbucketClient {
   private http: AxiosInstance;
   private isCloud: boolean;
   private authType: "basic" | "bearer";
+  private retry: Required<RetryOptions>;
+  private diffIgnore: string[];
+  private userCache = new Map<
+    string,
+    { id: string; user: User; expires: number }
+  >();
+  private memberCache = new Map<string, { members: any[]; expires: number }>();
+  private currentUserPromise?: Promise<User>;
 
   constructor(opts: BitbucketClientOptions) {
     console.log("[BitbucketClient] Initializing client");
@@ -61,6 +500,8 @@ export class BitbucketClient {
     this.authType =
       opts.authType ||
       (this.baseUrl.includes("api.bitbucket.org") ? "basic" : "bearer");
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...opts.retry };
+    this.diffIgnore = opts.diffIgnore ?? DEFAULT_DIFF_IGNORE;
     this.isCloud =
       this.baseUrl.includes("api.bitbucket.org") ||
       this.baseUrl === "https://api.bitbucket.org/2.0";
@@ -78,16 +519,86 @@ export class BitbucketClient {
     console.log("[BitbucketClient] Client initialized successfully");
   }
 
+  /**
+   * Run `fn`, retrying retryable BitbucketErrors with exponential backoff and
+   * full jitter. Non-idempotent calls are only retried when the request was
+   * rejected before Bitbucket could act on it (rate limited or never
+   * connected), so a create or merge is never applied twice.
+   */
+  private async withRetry<T>(
+    label: string,
+    idempotent: boolean,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error: any) {
+        const safeToRepeat =
+          idempotent ||
+          error?.errorType === "RATE_LIMIT_ERROR" ||
+          error?.errorType === "NETWORK_ERROR";
+        if (
+          !(error instanceof BitbucketError) ||
+          !error.isRetryable ||
+          !safeToRepeat ||
+          attempt >= this.retry.maxAttempts
+        ) {
+          throw error;
+        }
+        // Retrying before the server's reset time only burns attempts
+        if (
+          error.retryAfterMs !== undefined &&
+          error.retryAfterMs > this.retry.maxDelayMs
+        ) {
+          throw error;
+        }
+        const backoff =
+          Math.random() *
+          Math.min(
+            this.retry.maxDelayMs,
+            this.retry.baseDelayMs * 2 ** (attempt - 1)
+          );
+        const delay = error.retryAfterMs ?? backoff;
+        console.log(
+          `[BitbucketClient] ${label} - Retrying after ${Math.round(
+            delay
+          )}ms (attempt ${attempt + 1}/${this.retry.maxAttempts}, ${
+            error.errorType
+          })`
+        );
+        await sleep(delay);
+      }
+    }
+  }
+
   private async request<T>(
     path: string,
     init?: {
       method?: "GET" | "POST" | "PUT" | "DELETE";
       body?: any;
       headers?: Record<string, string>;
+      idempotent?: boolean; // Defaults to true for everything except POST
+      responseType?: "json" | "text" | "headers"; // headers: the response headers, not the body
     }
   ): Promise<T> {
     const method = init?.method || "GET";
-    const url = `${this.baseUrl}${path}`;
+    return this.withRetry(
+      `${method} ${path}`,
+      init?.idempotent ?? method !== "POST",
+      () => this.send<T>(path, method, init)
+    );
+  }
+
+  private async send<T>(
+    path: string,
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    init?: {
+      body?: any;
+      headers?: Record<string, string>;
+      responseType?: "json" | "text" | "headers";
+    }
+  ): Promise<T> {
     console.log(`[BitbucketClient] ${method} ${path}`);
     try {
       const res = await this.http.request<T>({
@@ -95,14 +606,17 @@ export class BitbucketClient {
         method,
         data: init?.body,
         headers: init?.headers,
+        responseType:
+          init?.responseType === "headers" ? undefined : init?.responseType,
       });
       console.log(
         `[BitbucketClient] ${method} ${path} - Success (${res.status})`
       );
-      return res.data as T;
+      return (init?.responseType === "headers" ? res.headers : res.data) as T;
     } catch (error: any) {
       const status = error.response?.status;
       const responseData = error.response?.data;
+      const retryAfterMs = parseRetryAfter(error.response?.headers);
 
       console.error(`[BitbucketClient] ${method} ${path} - Error:`, {
         status,
@@ -173,6 +687,7 @@ export class BitbucketClient {
           suggestion:
             "Too many requests. Wait before retrying. Check rate limit headers for reset time.",
           isRetryable: true,
+          retryAfterMs,
         });
       } else if (status && status >= 500) {
         throw new BitbucketError({
@@ -183,6 +698,7 @@ export class BitbucketClient {
           suggestion:
             "Bitbucket service is experiencing issues. Retry after a short delay.",
           isRetryable: true,
+          retryAfterMs,
         });
       } else if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED") {
         throw new BitbucketError({
@@ -222,6 +738,175 @@ export class BitbucketClient {
     }
   }
 
+  /**
+   * Fetch items from a paged list endpoint, following Cloud `next` links or
+   * Server `nextPageStart` until `limit` items are collected or the last page
+   * is reached. The returned cursor resumes exactly where this call stopped.
+   * `pageOf` picks the page object out of responses that nest it, such as
+   * Server's browse `children`.
+   */
+  private async paginate<T = any>(
+    path: string,
+    page: PaginationOptions = {},
+    pageOf: (res: any) => any = (res) => res
+  ): Promise<PaginatedResult<T>> {
+    const limit = page.limit ?? Infinity;
+    const scope = cursorScope(path);
+    let pagePath = this.withPageSize(path, page.limit);
+    let skip = 0;
+    if (page.cursor) {
+      // A cursor only continues the listing it came from, never another
+      // endpoint or another tool's query
+      const cursor = decodeCursor(page.cursor, new URL(this.baseUrl).origin);
+      if (
+        cursor.scope !== scope ||
+        cursor.path.split("?")[0] !== path.split("?")[0]
+      ) {
+        throw invalidCursor(page.cursor);
+      }
+      ({ path: pagePath, skip } = cursor);
+    }
+    const values: T[] = [];
+
+    while (true) {
+      const res = pageOf(await this.request<any>(pagePath));
+      const available: T[] = (res?.values ?? []).slice(skip);
+      const remaining = limit - values.length;
+      if (available.length > remaining) {
+        values.push(...available.slice(0, remaining));
+        return {
+          values,
+          nextCursor: encodeCursor(pagePath, skip + remaining, scope),
+        };
+      }
+      values.push(...available);
+
+      const next = this.nextPagePath(pagePath, res);
+      if (!next) {
+        return { values };
+      }
+      if (values.length >= limit) {
+        return { values, nextCursor: encodeCursor(next, 0, scope) };
+      }
+      pagePath = next;
+      skip = 0;
+    }
+  }
+
+  private withPageSize(path: string, limit?: number): string {
+    if (limit === undefined) return path;
+    return this.isCloud
+      ? setQueryParam(
+          path,
+          "pagelen",
+          String(Math.max(1, Math.min(limit, CLOUD_MAX_PAGELEN)))
+        )
+      : setQueryParam(
+          path,
+          "limit",
+          String(Math.max(1, Math.min(limit, SERVER_MAX_PAGE_LIMIT)))
+        );
+  }
+
+  private nextPagePath(currentPath: string, res: any): string | undefined {
+    if (this.isCloud) {
+      if (typeof res?.next !== "string") return undefined;
+      // Cloud returns absolute next links; keep them relative to our baseUrl
+      // so credentials are never sent to another host.
+      const next = new URL(res.next);
+      const base = new URL(this.baseUrl);
+      const basePath = base.pathname.replace(/\/$/, "");
+      if (next.origin !== base.origin || !next.pathname.startsWith(basePath)) {
+        return undefined;
+      }
+      return `${next.pathname.slice(basePath.length)}${next.search}`;
+    }
+    if (res?.isLastPage === false && typeof res.nextPageStart === "number") {
+      return setQueryParam(currentPath, "start", String(res.nextPageStart));
+    }
+    return undefined;
+  }
+
+  // Server plugin APIs (build status, branch permissions, ...) live next to
+  // the core API: https://host/rest/api/1.0 -> https://host/rest/<api>
+  private serverRestUrl(api: string): string {
+    const root = this.baseUrl.replace(/\/rest\/api\/[^/]+\/?$/, "");
+    return `${root}/rest/${api}`;
+  }
+
+  private requireCloud(feature: string) {
+    if (!this.isCloud) {
+      throw new BitbucketError({
+        message: `${feature} are only available on Bitbucket Cloud`,
+        errorType: "CAPABILITY_ERROR",
+        details: { feature, baseUrl: this.baseUrl },
+        suggestion:
+          "This Bitbucket Server/Data Center instance has no equivalent API. Use a Bitbucket Cloud workspace for this operation.",
+        isRetryable: false,
+      });
+    }
+  }
+
+  /**
+   * Run a Server pull request call that must send the PR's current version.
+   * The PR is fetched first; if Bitbucket reports the version is stale the
+   * PR is re-read and the call retried once before surfacing CONFLICT_ERROR.
+   */
+  private async withPullRequestVersion<T>(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    call: (current: any) => Promise<T>
+  ): Promise<T> {
+    return this.withServerVersion(
+      `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+        repoSlug
+      )}/pull-requests/${prId}`,
+      {
+        message: "Pull request was modified while this change was applied",
+        details: { workspace, repoSlug, prId },
+        suggestion:
+          "Another user or process updated the pull request. Fetch it again with pr_get, check the changes, then retry.",
+      },
+      call
+    );
+  }
+
+  private async withServerVersion<T>(
+    path: string,
+    conflict: { message: string; details: any; suggestion: string },
+    call: (current: any) => Promise<T>
+  ): Promise<T> {
+    const current = await this.request<any>(path);
+    try {
+      return await call(current);
+    } catch (error) {
+      if (!isVersionConflict(error)) throw error;
+    }
+
+    const latest = await this.request<any>(path);
+    console.log(
+      `[withServerVersion] ${path} version ${current.version} is stale, retrying with ${latest.version}`
+    );
+    try {
+      return await call(latest);
+    } catch (error: any) {
+      if (!isVersionConflict(error)) throw error;
+      throw new BitbucketError({
+        message: conflict.message,
+        statusCode: 409,
+        errorType: "CONFLICT_ERROR",
+        details: {
+          ...conflict.details,
+          version: latest.version,
+          response: error.details?.response,
+        },
+        suggestion: conflict.suggestion,
+        isRetryable: false,
+      });
+    }
+  }
+
   async getRepo(workspace: string, repoSlug: string) {
     console.log(`[getRepo] workspace=${workspace}, repoSlug=${repoSlug}`);
     if (this.isCloud) {
@@ -239,26 +924,99 @@ export class BitbucketClient {
     }
   }
 
-  async listPullRequests(
+  /**
+   * Default reviewers that apply to a pull request from `sourceBranch` into
+   * `destBranch`, without the caller: authors cannot review their own pull
+   * request, and Server rejects a PR that lists its author as a reviewer.
+   */
+  async getDefaultReviewers(
     workspace: string,
     repoSlug: string,
-    state: "OPEN" | "MERGED" | "DECLINED" | "SUPERSEDED" = "OPEN"
-  ) {
+    sourceBranch: string,
+    destBranch: string
+  ): Promise<User[]> {
     console.log(
-      `[listPullRequests] workspace=${workspace}, repoSlug=${repoSlug}, state=${state}`
+      `[getDefaultReviewers] workspace=${workspace}, repoSlug=${repoSlug}, source=${sourceBranch}, dest=${destBranch}`
     );
-    const params = new URLSearchParams({ state });
+    const defaults = await this.fetchDefaultReviewers(
+      workspace,
+      repoSlug,
+      sourceBranch,
+      destBranch
+    );
+    if (defaults.length === 0) return defaults;
+    const me = await this.currentUser();
+    return defaults.filter(
+      (u) => u.id !== me.id && (!me.username || u.username !== me.username)
+    );
+  }
+
+  // Default reviewers as configured, including the caller
+  private async fetchDefaultReviewers(
+    workspace: string,
+    repoSlug: string,
+    sourceBranch: string,
+    destBranch: string
+  ): Promise<User[]> {
     if (this.isCloud) {
-      return this.request(
+      const res = await this.paginate(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests?${params.toString()}`
+        )}/effective-default-reviewers`
       );
+      return res.values.map((r: any) => mapCloudUser(r.user));
     } else {
-      return this.request(
+      const repo = await this.request<any>(
         `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
           repoSlug
-        )}/pull-requests?${params.toString()}`
+        )}`
+      );
+      const params = new URLSearchParams({
+        sourceRepoId: String(repo.id),
+        targetRepoId: String(repo.id),
+        sourceRefId: `refs/heads/${sourceBranch}`,
+        targetRefId: `refs/heads/${destBranch}`,
+      });
+      const users = await this.request<any[]>(
+        `${this.serverRestUrl(
+          "default-reviewers/1.0"
+        )}/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+          repoSlug
+        )}/reviewers?${params.toString()}`
+      );
+      return (users ?? []).map(mapServerUser);
+    }
+  }
+
+  async listPullRequests(
+    workspace: string,
+    repoSlug: string,
+    state: "OPEN" | "MERGED" | "DECLINED" | "SUPERSEDED" = "OPEN",
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<PullRequest>> {
+    console.log(
+      `[listPullRequests] workspace=${workspace}, repoSlug=${repoSlug}, state=${state}`
+    );
+    const params = new URLSearchParams({ state });
+    if (this.isCloud) {
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests?${params.toString()}`,
+          page
+        ),
+        mapCloudPullRequest
+      );
+    } else {
+      return mapPage(
+        await this.paginate(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/pull-requests?${params.toString()}`,
+          page
+        ),
+        mapServerPullRequest
       );
     }
   }
@@ -271,26 +1029,55 @@ export class BitbucketClient {
       sourceBranch: string;
       destBranch: string;
       description?: string;
+      reviewers?: string[]; // Cloud UUIDs or Server user names
+      defaultReviewers?: boolean; // Add the repository defaults (default true)
     }
-  ) {
+  ): Promise<PullRequest> {
     console.log(
       `[createPullRequest] workspace=${workspace}, repoSlug=${repoSlug}, title=${args.title}, source=${args.sourceBranch}, dest=${args.destBranch}`
     );
+    const reviewers = new Set(args.reviewers ?? []);
+    if (args.defaultReviewers !== false) {
+      const defaults = await this.getDefaultReviewers(
+        workspace,
+        repoSlug,
+        args.sourceBranch,
+        args.destBranch
+      ).catch((error) => {
+        // Missing permission or plugin should not block creating the PR
+        if (
+          error instanceof BitbucketError &&
+          (error.statusCode === 403 || error.statusCode === 404)
+        ) {
+          console.error(
+            `[createPullRequest] Skipping default reviewers: ${error.message}`
+          );
+          return [];
+        }
+        throw error;
+      });
+      for (const user of defaults) {
+        reviewers.add(this.isCloud ? user.id : (user.username ?? user.id));
+      }
+    }
     if (this.isCloud) {
       const body = {
         title: args.title,
         description: args.description || "",
         source: { branch: { name: args.sourceBranch } },
         destination: { branch: { name: args.destBranch } },
+        reviewers: [...reviewers].map((uuid) => ({ uuid })),
       };
-      return this.request(
-        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
-          repoSlug
-        )}/pullrequests`,
-        {
-          method: "POST",
-          body: JSON.stringify(body),
-        }
+      return mapCloudPullRequest(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
       );
     } else {
       // Bitbucket Server format
@@ -321,33 +1108,47 @@ export class BitbucketClient {
           },
         },
         locked: false,
-        reviewers: [],
+        reviewers: [...reviewers].map((name) => ({ user: { name } })),
       };
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/pull-requests`,
-        {
-          method: "POST",
-          body: JSON.stringify(body),
-        }
+      return mapServerPullRequest(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/pull-requests`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
       );
     }
   }
 
-  async listBranches(workspace: string, repoSlug: string) {
+  async listBranches(
+    workspace: string,
+    repoSlug: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Branch>> {
     console.log(`[listBranches] workspace=${workspace}, repoSlug=${repoSlug}`);
     if (this.isCloud) {
-      return this.request(
-        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
-          repoSlug
-        )}/refs/branches`
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/refs/branches`,
+          page
+        ),
+        mapCloudBranch
       );
     } else {
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/branches`
+      return mapPage(
+        await this.paginate(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/branches`,
+          page
+        ),
+        mapServerBranch
       );
     }
   }
@@ -357,90 +1158,424 @@ export class BitbucketClient {
     repoSlug: string,
     name: string,
     targetHash: string
-  ) {
+  ): Promise<Branch> {
     console.log(
       `[createBranch] workspace=${workspace}, repoSlug=${repoSlug}, name=${name}, targetHash=${targetHash}`
     );
     const body = { name, target: { hash: targetHash } };
     if (this.isCloud) {
-      return this.request(
+      return mapCloudBranch(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/refs/branches`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
+    } else {
+      return mapServerBranch(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/branches`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
+    }
+  }
+
+  async deleteBranch(workspace: string, repoSlug: string, name: string) {
+    console.log(
+      `[deleteBranch] workspace=${workspace}, repoSlug=${repoSlug}, name=${name}`
+    );
+    if (this.isCloud) {
+      await this.request(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/refs/branches`,
-        {
-          method: "POST",
-          body: JSON.stringify(body),
-        }
+        )}/refs/branches/${encodeURIComponent(name)}`,
+        { method: "DELETE" }
       );
     } else {
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/branches`,
+      // The core Server API cannot delete refs; branch-utils can
+      await this.request(
+        `${this.serverRestUrl("branch-utils/1.0")}/projects/${encodeURIComponent(
+          workspace
+        )}/repos/${encodeURIComponent(repoSlug)}/branches`,
         {
-          method: "POST",
-          body: JSON.stringify(body),
+          method: "DELETE",
+          body: JSON.stringify({ name: `refs/heads/${name}`, dryRun: false }),
         }
       );
     }
+    return { deleted: true, name };
   }
 
-  async listWorkspaces() {
-    console.log("[listWorkspaces] Fetching workspaces/projects");
+  async listBranchRestrictions(
+    workspace: string,
+    repoSlug: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<BranchRestriction>> {
+    console.log(
+      `[listBranchRestrictions] workspace=${workspace}, repoSlug=${repoSlug}`
+    );
     if (this.isCloud) {
-      return this.request("/workspaces");
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/branch-restrictions`,
+          page
+        ),
+        mapCloudBranchRestriction
+      );
     } else {
-      return this.request("/projects");
+      return mapPage(
+        await this.paginate(
+          `${this.serverRestUrl(
+            "branch-permissions/2.0"
+          )}/projects/${encodeURIComponent(
+            workspace
+          )}/repos/${encodeURIComponent(repoSlug)}/restrictions`,
+          page
+        ),
+        mapServerBranchRestriction
+      );
     }
   }
 
-  async listRepositories(workspace: string) {
-    console.log(`[listRepositories] workspace=${workspace}`);
+  /**
+   * Create a branch restriction. `pattern` is a branch name or glob such as
+   * `release/*`; `users` are Cloud UUIDs or Server user names, `groups` are
+   * group slugs (Cloud) or names (Server).
+   */
+  async createBranchRestriction(
+    workspace: string,
+    repoSlug: string,
+    restriction: {
+      kind: string;
+      pattern: string;
+      value?: number;
+      users?: string[];
+      groups?: string[];
+    }
+  ): Promise<BranchRestriction> {
+    console.log(
+      `[createBranchRestriction] workspace=${workspace}, repoSlug=${repoSlug}, kind=${restriction.kind}, pattern=${restriction.pattern}`
+    );
     if (this.isCloud) {
-      return this.request(`/repositories/${encodeURIComponent(workspace)}`);
+      const body: any = {
+        kind: restriction.kind,
+        branch_match_kind: "glob",
+        pattern: restriction.pattern,
+        users: (restriction.users ?? []).map((uuid) => ({ uuid })),
+        groups: (restriction.groups ?? []).map((slug) => ({ slug })),
+      };
+      if (restriction.value !== undefined) body.value = restriction.value;
+      return mapCloudBranchRestriction(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/branch-restrictions`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
     } else {
-      return this.request(`/projects/${encodeURIComponent(workspace)}/repos`);
+      const isPattern = /[*?]/.test(restriction.pattern);
+      const body = {
+        type: restriction.kind,
+        matcher: isPattern
+          ? { id: restriction.pattern, type: { id: "PATTERN" } }
+          : {
+              id: `refs/heads/${restriction.pattern}`,
+              type: { id: "BRANCH" },
+            },
+        users: restriction.users ?? [],
+        groups: restriction.groups ?? [],
+      };
+      return mapServerBranchRestriction(
+        await this.request(
+          `${this.serverRestUrl(
+            "branch-permissions/2.0"
+          )}/projects/${encodeURIComponent(
+            workspace
+          )}/repos/${encodeURIComponent(repoSlug)}/restrictions`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
     }
   }
 
-  async getPullRequest(workspace: string, repoSlug: string, prId: number) {
+  async deleteBranchRestriction(
+    workspace: string,
+    repoSlug: string,
+    id: number
+  ) {
     console.log(
-      `[getPullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+      `[deleteBranchRestriction] workspace=${workspace}, repoSlug=${repoSlug}, id=${id}`
     );
     if (this.isCloud) {
-      return this.request(
+      await this.request(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests/${prId}`
+        )}/branch-restrictions/${id}`,
+        { method: "DELETE" }
+      );
+    } else {
+      await this.request(
+        `${this.serverRestUrl(
+          "branch-permissions/2.0"
+        )}/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+          repoSlug
+        )}/restrictions/${id}`,
+        { method: "DELETE" }
+      );
+    }
+    return { deleted: true, id };
+  }
+
+  async listWorkspaces(page?: PaginationOptions) {
+    console.log("[listWorkspaces] Fetching workspaces/projects");
+    if (this.isCloud) {
+      return this.paginate("/workspaces", page);
+    } else {
+      return this.paginate("/projects", page);
+    }
+  }
+
+  async listRepositories(workspace: string, page?: PaginationOptions) {
+    console.log(`[listRepositories] workspace=${workspace}`);
+    if (this.isCloud) {
+      return this.paginate(
+        `/repositories/${encodeURIComponent(workspace)}`,
+        page
       );
     } else {
+      return this.paginate(
+        `/projects/${encodeURIComponent(workspace)}/repos`,
+        page
+      );
+    }
+  }
+
+  async createRepository(
+    workspace: string,
+    repoSlug: string,
+    input: RepositoryInput = {}
+  ) {
+    console.log(
+      `[createRepository] workspace=${workspace}, repoSlug=${repoSlug}, project=${
+        input.project || "default"
+      }, private=${input.isPrivate ?? true}`
+    );
+    if (this.isCloud) {
+      const body: any = {
+        scm: "git",
+        is_private: input.isPrivate ?? true,
+      };
+      if (input.name) body.name = input.name;
+      if (input.description !== undefined) body.description = input.description;
+      if (input.language !== undefined) body.language = input.language;
+      if (input.project) body.project = { key: input.project };
+      if (input.defaultBranch) body.mainbranch = { name: input.defaultBranch };
       return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pull-requests/${prId}`
+        )}`,
+        { method: "POST", body: JSON.stringify(body) }
       );
+    } else {
+      // Server derives the slug from the name
+      const body: any = {
+        name: input.name || repoSlug,
+        scmId: "git",
+        public: !(input.isPrivate ?? true),
+      };
+      if (input.description !== undefined) body.description = input.description;
+      if (input.defaultBranch) body.defaultBranch = input.defaultBranch;
+      return this.request(`/projects/${encodeURIComponent(workspace)}/repos`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
     }
   }
 
-  async getPullRequestDiff(workspace: string, repoSlug: string, prId: number) {
+  /**
+   * Fork a repository into `target.workspace` (Server: project key). Without a
+   * target, Cloud forks into the source workspace and Server into the
+   * caller's personal project.
+   */
+  async forkRepository(
+    workspace: string,
+    repoSlug: string,
+    target: {
+      workspace?: string;
+      name?: string;
+      project?: string;
+      isPrivate?: boolean;
+      description?: string;
+    } = {}
+  ) {
     console.log(
-      `[getPullRequestDiff] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+      `[forkRepository] workspace=${workspace}, repoSlug=${repoSlug}, target=${
+        target.workspace || "default"
+      }, name=${target.name || repoSlug}`
     );
     if (this.isCloud) {
+      const body: any = {
+        workspace: { slug: target.workspace || workspace },
+      };
+      if (target.name) body.name = target.name;
+      if (target.project) body.project = { key: target.project };
+      if (target.isPrivate !== undefined) body.is_private = target.isPrivate;
+      if (target.description !== undefined)
+        body.description = target.description;
       return this.request(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests/${prId}/diff`
+        )}/forks`,
+        { method: "POST", body: JSON.stringify(body) }
       );
     } else {
+      const body: any = {};
+      if (target.name) body.name = target.name;
+      if (target.workspace) body.project = { key: target.workspace };
       return this.request(
         `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
           repoSlug
-        )}/pull-requests/${prId}/diff`
+        )}`,
+        { method: "POST", body: JSON.stringify(body) }
       );
     }
   }
 
+  /**
+   * Update repository settings. Fields left out keep their current value.
+   * Renaming on Server also changes the slug.
+   */
+  async updateRepository(
+    workspace: string,
+    repoSlug: string,
+    input: RepositoryInput
+  ) {
+    console.log(
+      `[updateRepository] workspace=${workspace}, repoSlug=${repoSlug}, fields=${Object.keys(
+        input
+      )
+        .filter((k) => (input as any)[k] !== undefined)
+        .join(", ")}`
+    );
+    if (this.isCloud) {
+      const body: any = {};
+      if (input.name !== undefined) body.name = input.name;
+      if (input.description !== undefined) body.description = input.description;
+      if (input.language !== undefined) body.language = input.language;
+      if (input.isPrivate !== undefined) body.is_private = input.isPrivate;
+      if (input.project) body.project = { key: input.project };
+      if (input.defaultBranch) body.mainbranch = { name: input.defaultBranch };
+      return this.request(
+        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+          repoSlug
+        )}`,
+        { method: "PUT", body: JSON.stringify(body) }
+      );
+    } else {
+      const path = `/projects/${encodeURIComponent(
+        workspace
+      )}/repos/${encodeURIComponent(repoSlug)}`;
+      // The default branch has its own endpoint on Server
+      if (input.defaultBranch) {
+        await this.request(`${path}/default-branch`, {
+          method: "PUT",
+          body: JSON.stringify({
+            id: input.defaultBranch.startsWith("refs/")
+              ? input.defaultBranch
+              : `refs/heads/${input.defaultBranch}`,
+          }),
+        });
+      }
+      const body: any = {};
+      if (input.name !== undefined) body.name = input.name;
+      if (input.description !== undefined) body.description = input.description;
+      if (input.isPrivate !== undefined) body.public = !input.isPrivate;
+      if (Object.keys(body).length === 0) {
+        return this.request(path);
+      }
+      return this.request(path, { method: "PUT", body: JSON.stringify(body) });
+    }
+  }
+
+  async getPullRequest(
+    workspace: string,
+    repoSlug: string,
+    prId: number
+  ): Promise<PullRequest> {
+    console.log(
+      `[getPullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    if (this.isCloud) {
+      return mapCloudPullRequest(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}`
+        )
+      );
+    } else {
+      return mapServerPullRequest(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/pull-requests/${prId}`
+        )
+      );
+    }
+  }
+
+  async getPullRequestDiff(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    options: DiffOptions = {}
+  ): Promise<DiffPage> {
+    console.log(
+      `[getPullRequestDiff] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, format=${
+        options.format || "unified"
+      }`
+    );
+    return this.diffPage(
+      this.pullRequestDiffPath(workspace, repoSlug, prId),
+      options
+    );
+  }
+
+  private pullRequestDiffPath(
+    workspace: string,
+    repoSlug: string,
+    prId: number
+  ): string {
+    if (this.isCloud) {
+      return `/repositories/${encodeURIComponent(
+        workspace
+      )}/${encodeURIComponent(repoSlug)}/pullrequests/${prId}/diff`;
+    } else {
+      return `/projects/${encodeURIComponent(
+        workspace
+      )}/repos/${encodeURIComponent(repoSlug)}/pull-requests/${prId}/diff`;
+    }
+  }
+
   async getPullRequestChanges(
     workspace: string,
     repoSlug: string,
@@ -464,16 +1599,23 @@ export class BitbucketClient {
     }
   }
 
+  /**
+   * Add a comment to a pull request, or reply in the thread of `parentId`.
+   */
   async addPullRequestComment(
     workspace: string,
     repoSlug: string,
     prId: number,
-    text: string
-  ) {
+    text: string,
+    parentId?: number
+  ): Promise<Comment> {
     console.log(
-      `[addPullRequestComment] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, textLength=${text.length}`
+      `[addPullRequestComment] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, textLength=${
+        text.length
+      }, parentId=${parentId ?? "none"}`
     );
-    const body = this.isCloud ? { content: { raw: text } } : { text };
+    const body: any = this.isCloud ? { content: { raw: text } } : { text };
+    if (parentId !== undefined) body.parent = { id: parentId };
     const path = this.isCloud
       ? `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
@@ -481,10 +1623,11 @@ export class BitbucketClient {
       : `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
           repoSlug
         )}/pull-requests/${prId}/comments`;
-    return this.request(path, {
+    const res = await this.request<any>(path, {
       method: "POST",
       body: JSON.stringify(body),
     });
+    return this.isCloud ? mapCloudComment(res) : mapServerComment(res);
   }
 
   async getFileContent(
@@ -503,60 +1646,63 @@ export class BitbucketClient {
         commitHash
       )}/${encodeURIComponent(filePath)}`;
       console.log(`[getFileContent] Fetching from URL: ${url}`);
-      const res = await fetch(url, {
-        headers: {
-          Authorization: getAuthHeader(this.email, this.token, this.authType),
-        },
-      });
-      if (!res.ok) {
-        console.error(`[getFileContent] Failed with status ${res.status}`);
-        const errorText = await res
-          .text()
-          .catch(() => "Unable to read error response");
+      const content = await this.withRetry(`GET ${url}`, true, async () => {
+        const res = await fetch(url, {
+          headers: {
+            Authorization: getAuthHeader(this.email, this.token, this.authType),
+          },
+        });
+        if (!res.ok) {
+          console.error(`[getFileContent] Failed with status ${res.status}`);
+          const errorText = await res
+            .text()
+            .catch(() => "Unable to read error response");
 
-        if (res.status === 404) {
-          throw new BitbucketError({
-            message: "File not found",
-            statusCode: 404,
-            errorType: "FILE_NOT_FOUND",
-            details: {
-              workspace,
-              repoSlug,
-              filePath,
-              commitHash,
-              response: errorText,
-            },
-            suggestion:
-              "Verify the file path and commit hash are correct. File may not exist at this commit.",
-            isRetryable: false,
-          });
-        } else if (res.status === 401) {
-          throw new BitbucketError({
-            message: "Authentication failed for file content",
-            statusCode: 401,
-            errorType: "AUTHENTICATION_ERROR",
-            details: { workspace, repoSlug, filePath, commitHash },
-            suggestion: "Check authentication credentials.",
-            isRetryable: false,
-          });
-        } else {
-          throw new BitbucketError({
-            message: `Failed to fetch file content: HTTP ${res.status}`,
-            statusCode: res.status,
-            errorType: "FILE_FETCH_ERROR",
-            details: {
-              workspace,
-              repoSlug,
-              filePath,
-              commitHash,
-              response: errorText,
-            },
-            suggestion: "Check file permissions and repository access.",
-            isRetryable: res.status >= 500,
-          });
+          if (res.status === 404) {
+            throw new BitbucketError({
+              message: "File not found",
+              statusCode: 404,
+              errorType: "FILE_NOT_FOUND",
+              details: {
+                workspace,
+                repoSlug,
+                filePath,
+                commitHash,
+                response: errorText,
+              },
+              suggestion:
+                "Verify the file path and commit hash are correct. File may not exist at this commit.",
+              isRetryable: false,
+            });
+          } else if (res.status === 401) {
+            throw new BitbucketError({
+              message: "Authentication failed for file content",
+              statusCode: 401,
+              errorType: "AUTHENTICATION_ERROR",
+              details: { workspace, repoSlug, filePath, commitHash },
+              suggestion: "Check authentication credentials.",
+              isRetryable: false,
+            });
+          } else {
+            throw new BitbucketError({
+              message: `Failed to fetch file content: HTTP ${res.status}`,
+              statusCode: res.status,
+              errorType: "FILE_FETCH_ERROR",
+              details: {
+                workspace,
+                repoSlug,
+                filePath,
+                commitHash,
+                response: errorText,
+              },
+              suggestion: "Check file permissions and repository access.",
+              isRetryable: res.status === 429 || res.status >= 500,
+              retryAfterMs: parseRetryAfter(res.headers),
+            });
+          }
         }
-      }
-      const content = await res.text();
+        return res.text();
+      });
       console.log(`[getFileContent] Retrieved ${content.length} characters`);
       return content;
     } else {
@@ -575,378 +1721,3036 @@ export class BitbucketClient {
     }
   }
 
-  async testConnection(): Promise<{
-    success: boolean;
-    error?: BitbucketError;
-  }> {
-    console.log("[testConnection] Testing Bitbucket connection");
-    try {
-      await this.listWorkspaces();
-      console.log("[testConnection] Connection successful");
-      return { success: true };
-    } catch (error: any) {
-      console.error("[testConnection] Connection failed:", error.message);
-      if (error instanceof BitbucketError) {
-        return { success: false, error };
-      }
-      return {
-        success: false,
-        error: new BitbucketError({
-          message: error.message || "Connection test failed",
-          errorType: "CONNECTION_TEST_FAILED",
-          details: { originalError: error },
-          suggestion: "Verify baseUrl, credentials, and network connectivity.",
-          isRetryable: true,
-        }),
-      };
-    }
-  }
-
-  async listCommits(workspace: string, repoSlug: string, spec?: string) {
+  /**
+   * Commits that modified `filePath`, newest first, as seen from `ref`.
+   * Both backends follow renames.
+   */
+  async getFileHistory(
+    workspace: string,
+    repoSlug: string,
+    filePath: string,
+    ref: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Commit>> {
     console.log(
-      `[listCommits] workspace=${workspace}, repoSlug=${repoSlug}, spec=${
-        spec || "none"
-      }`
+      `[getFileHistory] workspace=${workspace}, repoSlug=${repoSlug}, filePath=${filePath}, ref=${ref}`
     );
     if (this.isCloud) {
-      const path = spec
-        ? `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
-            repoSlug
-          )}/commits/${encodeURIComponent(spec)}`
-        : `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
-            repoSlug
-          )}/commits`;
-      return this.request(path);
+      return mapPage(
+        await this.cloudFileHistory(workspace, repoSlug, filePath, ref, page),
+        (entry: any) => mapCloudCommit(entry.commit)
+      );
     } else {
-      const path = spec
-        ? `/projects/${encodeURIComponent(
-            workspace
-          )}/repos/${encodeURIComponent(
+      const params = new URLSearchParams({
+        path: filePath,
+        until: ref,
+        followRenames: "true",
+      });
+      return mapPage(
+        await this.paginate(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
             repoSlug
-          )}/commits?until=${encodeURIComponent(spec)}`
-        : `/projects/${encodeURIComponent(
-            workspace
-          )}/repos/${encodeURIComponent(repoSlug)}/commits`;
-      return this.request(path);
+          )}/commits?${params.toString()}`,
+          page
+        ),
+        mapServerCommit
+      );
     }
   }
 
-  async approvePullRequest(workspace: string, repoSlug: string, prId: number) {
+  /**
+   * Per-line blame of `filePath` at `ref`. Cloud has no blame API, so lines
+   * are attributed by comparing up to `maxRevisions` revisions from the file
+   * history; `approximate` is set when older history was not examined and
+   * some lines may be older than the commit they are credited to.
+   */
+  async getFileBlame(
+    workspace: string,
+    repoSlug: string,
+    filePath: string,
+    ref: string,
+    maxRevisions: number = 25
+  ): Promise<{
+    path: string;
+    ref: string;
+    lines: BlameLine[];
+    approximate: boolean;
+  }> {
     console.log(
-      `[approvePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+      `[getFileBlame] workspace=${workspace}, repoSlug=${repoSlug}, filePath=${filePath}, ref=${ref}`
     );
     if (this.isCloud) {
-      return this.request(
-        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
-          repoSlug
-        )}/pullrequests/${prId}/approve`,
-        { method: "POST" }
+      const history = await this.cloudFileHistory(
+        workspace,
+        repoSlug,
+        filePath,
+        ref,
+        { limit: Math.max(1, maxRevisions) }
+      );
+      if (history.values.length === 0) {
+        throw new BitbucketError({
+          message: "File not found",
+          statusCode: 404,
+          errorType: "FILE_NOT_FOUND",
+          details: { workspace, repoSlug, filePath, ref },
+          suggestion:
+            "Verify the file path and ref are correct. File may not exist at this ref.",
+          isRetryable: false,
+        });
+      }
+      const commits = history.values.map((entry: any) =>
+        mapCloudCommit(entry.commit)
+      );
+      const { lines, owners, unresolved } = await blameFromHistory(
+        history.values.length,
+        async (index) => {
+          const entry = history.values[index];
+          try {
+            return splitLines(
+              await this.getFileContent(
+                workspace,
+                repoSlug,
+                entry.path ?? filePath,
+                entry.commit.hash
+              )
+            );
+          } catch (error) {
+            // History can include the commit that deleted an earlier copy
+            if (
+              error instanceof BitbucketError &&
+              error.errorType === "FILE_NOT_FOUND"
+            ) {
+              return [];
+            }
+            throw error;
+          }
+        }
       );
+      return {
+        path: filePath,
+        ref,
+        lines: lines.map((text, i) => {
+          const commit = commits[owners[i]];
+          return {
+            line: i + 1,
+            text,
+            hash: commit.hash,
+            author: commit.author.name,
+            date: commit.date,
+          };
+        }),
+        approximate: unresolved > 0 && history.nextCursor !== undefined,
+      };
     } else {
-      return this.request(
+      const { values } = await this.paginate<BlameLine>(
         `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
           repoSlug
-        )}/pull-requests/${prId}/approve`,
-        { method: "POST" }
+        )}/browse/${encodeFilePath(filePath)}?at=${encodeURIComponent(ref)}&blame=true`,
+        {},
+        (res) => ({ ...res, values: mapServerBlameLines(res) })
       );
+      return { path: filePath, ref, lines: values, approximate: false };
     }
   }
 
-  async declinePullRequest(workspace: string, repoSlug: string, prId: number) {
-    console.log(
-      `[declinePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+  private cloudFileHistory(
+    workspace: string,
+    repoSlug: string,
+    filePath: string,
+    ref: string,
+    page?: PaginationOptions
+  ) {
+    // The default representation only carries commit hashes
+    const fields = [
+      "next",
+      "values.path",
+      "values.commit.hash",
+      "values.commit.date",
+      "values.commit.message",
+      "values.commit.author",
+      "values.commit.parents.hash",
+      "values.commit.links.html",
+    ].join(",");
+    return this.paginate(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/filehistory/${encodeURIComponent(ref)}/${encodeFilePath(filePath)}?fields=${encodeURIComponent(fields)}`,
+      page
     );
-    if (this.isCloud) {
-      return this.request(
-        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
-          repoSlug
-        )}/pullrequests/${prId}/decline`,
-        { method: "POST" }
-      );
-    } else {
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/pull-requests/${prId}/decline`,
-        { method: "POST" }
-      );
-    }
   }
 
-  async mergePullRequest(
+  /**
+   * List a directory at a commit, branch or tag, descending up to `maxDepth`
+   * levels. `glob` filters the returned entries by path; directories are
+   * still walked when they do not match. Stops after `limit` entries.
+   */
+  async listDirectory(
     workspace: string,
     repoSlug: string,
-    prId: number,
-    options?: {
-      closeSourceBranch?: boolean;
-      mergeStrategy?: "merge_commit" | "squash" | "fast_forward";
-      message?: string;
+    args: {
+      ref: string;
+      path?: string;
+      maxDepth?: number;
+      glob?: string;
+      limit?: number;
     }
-  ) {
+  ): Promise<{
+    ref: string;
+    path: string;
+    entries: TreeEntry[];
+    truncated: boolean;
+  }> {
+    const root = (args.path ?? "").replace(/^\/+|\/+$/g, "");
+    const maxDepth = Math.max(1, args.maxDepth ?? 1);
+    const limit = args.limit ?? 500;
     console.log(
-      `[mergePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, strategy=${
-        options?.mergeStrategy || "default"
-      }`
+      `[listDirectory] workspace=${workspace}, repoSlug=${repoSlug}, ref=${
+        args.ref
+      }, path=${root || "/"}, maxDepth=${maxDepth}, glob=${args.glob || "none"}`
     );
-    if (this.isCloud) {
-      const body: any = {};
-      if (options?.closeSourceBranch !== undefined) {
-        body.close_source_branch = options.closeSourceBranch;
+    const entries: TreeEntry[] = [];
+    const queue = [{ dir: root, depth: 1 }];
+
+    while (queue.length > 0) {
+      const { dir, depth } = queue.shift()!;
+      const encodedDir = encodeFilePath(dir);
+      let children: TreeEntry[];
+      if (this.isCloud) {
+        const { values } = await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/src/${encodeURIComponent(args.ref)}/${
+            encodedDir ? `${encodedDir}/` : ""
+          }`
+        );
+        children = values.map((v) => mapCloudTreeEntry(v, depth));
+      } else {
+        const { values } = await this.paginate(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/browse/${encodedDir}?at=${encodeURIComponent(args.ref)}`,
+          {},
+          (res) => res?.children
+        );
+        children = values.map((v) => mapServerTreeEntry(v, dir, depth));
       }
-      if (options?.mergeStrategy) {
-        body.merge_strategy = options.mergeStrategy;
+
+      for (const entry of children) {
+        if (!args.glob || matchesGlob(entry.path, args.glob)) {
+          if (entries.length >= limit) {
+            return { ref: args.ref, path: root, entries, truncated: true };
+          }
+          entries.push(entry);
+        }
+        if (entry.type === "directory" && depth < maxDepth) {
+          queue.push({ dir: entry.path, depth: depth + 1 });
+        }
+      }
+    }
+    return { ref: args.ref, path: root, entries, truncated: false };
+  }
+
+  /**
+   * Search code across a Cloud workspace or Server project, optionally
+   * narrowed to one repository. `query` uses the backend's search syntax,
+   * so extra qualifiers such as `lang:java` or `ext:ts` pass through.
+   */
+  async searchCode(
+    workspace: string,
+    query: string,
+    repoSlug?: string,
+    page: PaginationOptions = {}
+  ): Promise<PaginatedResult<CodeSearchResult>> {
+    console.log(
+      `[searchCode] workspace=${workspace}, query=${query}, repoSlug=${
+        repoSlug || "all"
+      }, limit=${page.limit ?? "all"}`
+    );
+    if (this.isCloud) {
+      const q = repoSlug ? `${query} repo:${repoSlug}` : query;
+      return mapPage(
+        await this.paginate(
+          `/workspaces/${encodeURIComponent(
+            workspace
+          )}/search/code?search_query=${encodeURIComponent(q)}`,
+          page
+        ),
+        mapCloudCodeSearchResult
+      );
+    } else {
+      // Search is a POST with its own start/limit, so it cannot go through
+      // paginate(); the cursor carries the next start offset instead, bound
+      // to the query it was issued for
+      const url = `${this.serverRestUrl("search/latest")}/search`;
+      const scope = [`project:${workspace}`];
+      if (repoSlug) scope.push(`repo:${repoSlug}`);
+      const fullQuery = `${query} ${scope.join(" ")}`;
+      const cursorPath = `${url}?${new URLSearchParams({ query: fullQuery })}`;
+      let start = 0;
+      if (page.cursor) {
+        const cursor = decodeCursor(page.cursor, new URL(this.baseUrl).origin);
+        if (cursor.path !== cursorPath) {
+          throw new BitbucketError({
+            message: "Cursor belongs to a different search",
+            errorType: "VALIDATION_ERROR",
+            details: { cursor: page.cursor },
+            suggestion:
+              "Pass the nextCursor from a previous call with the same query, workspace and repoSlug, or omit cursor to start from the first page.",
+            isRetryable: false,
+          });
+        }
+        start = cursor.skip;
+      }
+      const limit = Math.max(
+        1,
+        Math.min(page.limit ?? SERVER_MAX_PAGE_LIMIT, SERVER_MAX_PAGE_LIMIT)
+      );
+      const res = await this.request<any>(url, {
+        method: "POST",
+        body: JSON.stringify({
+          query: fullQuery,
+          entities: { code: { start, limit } },
+          limits: { primary: limit, secondary: 10 },
+        }),
+        // Searching has no side effects
+        idempotent: true,
+      });
+      const code = res?.code ?? {};
+      return {
+        values: (code.values ?? []).map(mapServerCodeSearchResult),
+        nextCursor:
+          code.isLastPage === false && typeof code.nextStart === "number"
+            ? encodeCursor(cursorPath, code.nextStart)
+            : undefined,
+      };
+    }
+  }
+
+  /**
+   * Commit file changes straight to a branch. With `sourceBranch`, `branch`
+   * is created from it as part of the commit. Cloud writes every change in a
+   * single commit; Server's browse API takes one file per commit and cannot
+   * delete files.
+   */
+  async commitFiles(
+    workspace: string,
+    repoSlug: string,
+    args: {
+      branch: string;
+      message: string;
+      files: Array<{ path: string; content?: string; delete?: boolean }>;
+      author?: string; // "Name <email>", Cloud only
+      sourceBranch?: string;
+    }
+  ): Promise<{ branch: string; commits: string[] }> {
+    console.log(
+      `[commitFiles] workspace=${workspace}, repoSlug=${repoSlug}, branch=${
+        args.branch
+      }, files=${args.files.map((f) => f.path).join(", ")}, sourceBranch=${
+        args.sourceBranch || "none"
+      }`
+    );
+    const invalid = args.files.filter(
+      (f) =>
+        !f.path ||
+        (f.delete ? f.content !== undefined : f.content === undefined)
+    );
+    if (args.files.length === 0 || invalid.length > 0) {
+      throw new BitbucketError({
+        message: "Each file needs a path and either content or delete: true",
+        errorType: "VALIDATION_ERROR",
+        details: { invalid: invalid.map((f) => f.path) },
+        suggestion:
+          "Pass at least one file. Use content to create or update a file, or delete: true to remove it.",
+        isRetryable: false,
+      });
+    }
+
+    if (this.isCloud) {
+      const repoPath = `/repositories/${encodeURIComponent(
+        workspace
+      )}/${encodeURIComponent(repoSlug)}`;
+      const form = new FormData();
+      form.append("message", args.message);
+      form.append("branch", args.branch);
+      if (args.author) form.append("author", args.author);
+      if (args.sourceBranch) {
+        // A new branch is created when its parent commit is given
+        const source = await this.request<any>(
+          `${repoPath}/refs/branches/${encodeURIComponent(args.sourceBranch)}`
+        );
+        form.append("parents", source.target.hash);
+      }
+      for (const f of args.files) {
+        if (f.delete) {
+          form.append("files", f.path);
+        } else {
+          form.append(f.path, f.content!);
+        }
+      }
+      // The new commit is only named in the Location header. Reading the
+      // branch head instead could pick up someone else's later push, so
+      // without the header no hash is reported.
+      const headers = await this.request<Record<string, any>>(
+        `${repoPath}/src`,
+        {
+          method: "POST",
+          body: form,
+          headers: { "Content-Type": "multipart/form-data" },
+          responseType: "headers",
+        }
+      );
+      const hash = /\/commit\/([0-9a-f]+)/i.exec(
+        String(headers?.location ?? "")
+      )?.[1];
+      return { branch: args.branch, commits: hash ? [hash] : [] };
+    } else {
+      const deletes = args.files.filter((f) => f.delete);
+      if (deletes.length > 0) {
+        throw new BitbucketError({
+          message: "Deleting files is not supported on Bitbucket Server",
+          errorType: "CAPABILITY_ERROR",
+          details: { paths: deletes.map((f) => f.path) },
+          suggestion:
+            "Server's REST API can only create or update files. Delete them with git and push instead.",
+          isRetryable: false,
+        });
+      }
+      const repoPath = `/projects/${encodeURIComponent(
+        workspace
+      )}/repos/${encodeURIComponent(repoSlug)}`;
+      const latest = await this.request<any>(
+        `${repoPath}/commits?until=${encodeURIComponent(
+          `refs/heads/${args.sourceBranch ?? args.branch}`
+        )}&limit=1`
+      );
+      // Undefined on an empty branch: every file is then new
+      let head: string | undefined = latest.values?.[0]?.id;
+      let sourceBranch = args.sourceBranch;
+      const commits: string[] = [];
+      // One commit per file; a failure part way leaves earlier files on the
+      // branch, so report which ones landed
+      for (const f of args.files) {
+        try {
+          const filePath = encodeFilePath(f.path);
+          // sourceCommitId must be omitted for new files and set for edits
+          const exists =
+            head !== undefined &&
+            (await this.request(
+              `${repoPath}/browse/${filePath}?at=${encodeURIComponent(
+                head
+              )}&type=true`
+            ).then(
+              () => true,
+              (e) => {
+                if (e instanceof BitbucketError && e.statusCode === 404) {
+                  return false;
+                }
+                throw e;
+              }
+            ));
+          const form = new FormData();
+          form.append("content", f.content!);
+          form.append("message", args.message);
+          form.append("branch", args.branch);
+          if (exists && head) form.append("sourceCommitId", head);
+          if (sourceBranch) form.append("sourceBranch", sourceBranch);
+          const commit = await this.request<any>(
+            `${repoPath}/browse/${filePath}`,
+            {
+              method: "PUT",
+              body: form,
+              headers: { "Content-Type": "multipart/form-data" },
+              // A retry after a lost response could commit the file twice
+              idempotent: false,
+            }
+          );
+          head = commit.id;
+          commits.push(commit.id);
+          // The branch exists after the first commit
+          sourceBranch = undefined;
+        } catch (error: any) {
+          throw new BitbucketError({
+            message: `Committing ${f.path} failed after ${commits.length} of ${args.files.length} file(s) were committed: ${error.message}`,
+            statusCode: error?.statusCode,
+            errorType:
+              error instanceof BitbucketError
+                ? error.errorType
+                : "UNKNOWN_ERROR",
+            details: {
+              commits,
+              failedPath: f.path,
+              cause: error?.details,
+            },
+            suggestion:
+              commits.length > 0
+                ? `The first ${commits.length} file(s) are already committed to ${args.branch}. Retry with the remaining files only.`
+                : error?.suggestion,
+            isRetryable: false,
+          });
+        }
+      }
+      return { branch: args.branch, commits };
+    }
+  }
+
+  async testConnection(): Promise<{
+    success: boolean;
+    error?: BitbucketError;
+  }> {
+    console.log("[testConnection] Testing Bitbucket connection");
+    try {
+      await this.listWorkspaces({ limit: 1 });
+      console.log("[testConnection] Connection successful");
+      return { success: true };
+    } catch (error: any) {
+      console.error("[testConnection] Connection failed:", error.message);
+      if (error instanceof BitbucketError) {
+        return { success: false, error };
+      }
+      return {
+        success: false,
+        error: new BitbucketError({
+          message: error.message || "Connection test failed",
+          errorType: "CONNECTION_TEST_FAILED",
+          details: { originalError: error },
+          suggestion: "Verify baseUrl, credentials, and network connectivity.",
+          isRetryable: true,
+        }),
+      };
+    }
+  }
+
+  async listCommits(
+    workspace: string,
+    repoSlug: string,
+    spec?: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Commit>> {
+    console.log(
+      `[listCommits] workspace=${workspace}, repoSlug=${repoSlug}, spec=${
+        spec || "none"
+      }`
+    );
+    if (this.isCloud) {
+      const path = spec
+        ? `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/commits/${encodeURIComponent(spec)}`
+        : `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/commits`;
+      return mapPage(await this.paginate(path, page), mapCloudCommit);
+    } else {
+      const path = spec
+        ? `/projects/${encodeURIComponent(
+            workspace
+          )}/repos/${encodeURIComponent(
+            repoSlug
+          )}/commits?until=${encodeURIComponent(spec)}`
+        : `/projects/${encodeURIComponent(
+            workspace
+          )}/repos/${encodeURIComponent(repoSlug)}/commits`;
+      return mapPage(await this.paginate(path, page), mapServerCommit);
+    }
+  }
+
+  async approvePullRequest(
+    workspace: string,
+    repoSlug: string,
+    prId: number
+  ): Promise<Participant> {
+    console.log(
+      `[approvePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    if (this.isCloud) {
+      return mapCloudParticipant(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}/approve`,
+          { method: "POST" }
+        )
+      );
+    } else {
+      return mapServerParticipant(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/pull-requests/${prId}/approve`,
+          { method: "POST" }
+        )
+      );
+    }
+  }
+
+  /**
+   * Set the caller's review on a pull request: APPROVED, NEEDS_WORK
+   * (Cloud "request changes") or UNAPPROVED to withdraw either.
+   */
+  async setPullRequestReviewStatus(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    status: ParticipantStatus
+  ): Promise<Participant> {
+    console.log(
+      `[setPullRequestReviewStatus] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, status=${status}`
+    );
+    if (this.isCloud) {
+      const prPath = `/repositories/${encodeURIComponent(
+        workspace
+      )}/${encodeURIComponent(repoSlug)}/pullrequests/${prId}`;
+      if (status === "APPROVED") {
+        return this.approvePullRequest(workspace, repoSlug, prId);
+      }
+      if (status === "NEEDS_WORK") {
+        return mapCloudParticipant(
+          await this.request(`${prPath}/request-changes`, {
+            method: "POST",
+            idempotent: true,
+          })
+        );
+      }
+      // Withdraw whichever review the caller currently has
+      const me = await this.currentUser();
+      const pr = await this.getPullRequest(workspace, repoSlug, prId);
+      const mine = pr.participants.find((p) => p.user.id === me.id);
+      if (mine?.approved) {
+        await this.request(`${prPath}/approve`, { method: "DELETE" });
+      }
+      if (mine?.status === "NEEDS_WORK") {
+        await this.request(`${prPath}/request-changes`, { method: "DELETE" });
+      }
+      return {
+        user: me,
+        role: mine?.role ?? "PARTICIPANT",
+        approved: false,
+        status: "UNAPPROVED",
+      };
+    } else {
+      // Server addresses the caller's participant entry by user slug
+      const me = await this.currentUser();
+      return mapServerParticipant(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/pull-requests/${prId}/participants/${encodeURIComponent(me.id)}`,
+          {
+            method: "PUT",
+            body: JSON.stringify({
+              user: { name: me.username ?? me.id },
+              approved: status === "APPROVED",
+              status,
+            }),
+          }
+        )
+      );
+    }
+  }
+
+  /**
+   * Reviewers first, then everyone else who took part, each with their
+   * current review status.
+   */
+  async listPullRequestParticipants(
+    workspace: string,
+    repoSlug: string,
+    prId: number
+  ): Promise<Participant[]> {
+    console.log(
+      `[listPullRequestParticipants] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    return pullRequestParticipants(
+      await this.getPullRequest(workspace, repoSlug, prId)
+    );
+  }
+
+  // The authenticated user, looked up once per client
+  private currentUser(): Promise<User> {
+    if (!this.currentUserPromise) {
+      this.currentUserPromise = this.fetchCurrentUser().catch((error) => {
+        this.currentUserPromise = undefined;
+        throw error;
+      });
+    }
+    return this.currentUserPromise;
+  }
+
+  private async fetchCurrentUser(): Promise<User> {
+    if (this.isCloud) {
+      return mapCloudUser(await this.request<any>("/user"));
+    }
+    // Server has no REST "who am I"; the applinks servlet returns the name
+    const root = this.baseUrl.replace(/\/rest\/api\/[^/]+\/?$/, "");
+    const name = (
+      await this.request<string>(`${root}/plugins/servlet/applinks/whoami`, {
+        headers: { Accept: "*/*" },
+        responseType: "text",
+      })
+    ).trim();
+    const { users } = await this.findServerUsers(name);
+    return (
+      users.find((u) => u.username === name) ?? {
+        id: name,
+        username: name,
+        displayName: name,
+      }
+    );
+  }
+
+  /**
+   * Report whether a pull request can be merged and why not. Server answers
+   * this directly; on Cloud the result is assembled from the PR, its diff,
+   * build statuses and the branch restrictions on the destination branch.
+   */
+  async checkPullRequestMerge(
+    workspace: string,
+    repoSlug: string,
+    prId: number
+  ): Promise<MergeCheck> {
+    console.log(
+      `[checkPullRequestMerge] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    const pr = await this.getPullRequest(workspace, repoSlug, prId);
+    const participants = pullRequestParticipants(pr);
+    const approvals = participants.filter((p) => p.approved).length;
+    const openTaskCount = pr.openTaskCount ?? 0;
+    if (pr.state !== "OPEN") {
+      return {
+        prId,
+        canMerge: false,
+        conflicted: false,
+        vetoes: [
+          { kind: "STATE", message: `Pull request is ${pr.state}, not OPEN` },
+        ],
+        warnings: [],
+        approvals,
+        openTaskCount,
+        builds: "NONE",
+      };
+    }
+    // Without a source commit there are no builds to look up; an enforced
+    // build check then vetoes on Cloud, and the gap is reported below
+    const summary: PullRequestBuildSummary = pr.source.commit
+      ? await this.getPullRequestBuildSummary(workspace, repoSlug, prId)
+      : {
+          prId,
+          commit: "",
+          overall: "NONE",
+          counts: { SUCCESSFUL: 0, FAILED: 0, INPROGRESS: 0, STOPPED: 0 },
+          builds: [],
+        };
+    const needsWork = participants.filter((p) => p.status === "NEEDS_WORK");
+
+    // Problems worth knowing about whether or not a merge check enforces them
+    const issues: MergeVeto[] = [];
+    if (approvals === 0) {
+      issues.push({ kind: "APPROVALS", message: "No approvals yet" });
+    }
+    if (needsWork.length > 0) {
+      issues.push({
+        kind: "CHANGES_REQUESTED",
+        message: `Changes requested by ${needsWork
+          .map((p) => p.user.displayName)
+          .join(", ")}`,
+      });
+    }
+    if (!pr.source.commit) {
+      issues.push({
+        kind: "BUILDS",
+        message:
+          "Pull request has no source commit (was the source branch deleted?); builds could not be checked",
+      });
+    } else if (
+      summary.overall === "FAILED" ||
+      summary.overall === "INPROGRESS"
+    ) {
+      issues.push({
+        kind: "BUILDS",
+        message:
+          summary.overall === "FAILED"
+            ? `${summary.counts.FAILED + summary.counts.STOPPED} build(s) failed`
+            : `${summary.counts.INPROGRESS} build(s) still running`,
+      });
+    }
+    if (openTaskCount > 0) {
+      issues.push({
+        kind: "TASKS",
+        message: `${openTaskCount} open task(s)`,
+      });
+    }
+
+    let conflicted: boolean;
+    let vetoes: MergeVeto[];
+    if (this.isCloud) {
+      const repoPath = `/repositories/${encodeURIComponent(
+        workspace
+      )}/${encodeURIComponent(repoSlug)}`;
+      const diffstat = await this.paginate(
+        `${repoPath}/pullrequests/${prId}/diffstat`
+      );
+      const conflicts = diffstat.values.filter((d: any) =>
+        /conflict/i.test(d?.status ?? "")
+      );
+      conflicted = conflicts.length > 0;
+      vetoes = conflicted
+        ? [
+            {
+              kind: "CONFLICT",
+              message: `${conflicts.length} file(s) have merge conflicts`,
+              detail: conflicts
+                .map((d: any) => d.new?.path ?? d.old?.path)
+                .join(", "),
+            },
+          ]
+        : [];
+      vetoes.push(
+        ...(await this.cloudRestrictionVetoes(workspace, repoSlug, pr, {
+          approvals,
+          openTaskCount,
+          needsWork: needsWork.length,
+          summary,
+          issues,
+        }))
+      );
+    } else {
+      const res = await this.request<any>(
+        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+          repoSlug
+        )}/pull-requests/${prId}/merge`
+      );
+      conflicted = Boolean(res?.conflicted);
+      vetoes = (res?.vetoes ?? []).map((v: any) => ({
+        kind: serverVetoKind(`${v.summaryMessage} ${v.detailedMessage}`),
+        message: v.summaryMessage,
+        detail: v.detailedMessage,
+      }));
+      if (conflicted && !vetoes.some((v) => v.kind === "CONFLICT")) {
+        vetoes.unshift({
+          kind: "CONFLICT",
+          message: "The pull request has merge conflicts",
+        });
+      }
+    }
+
+    return {
+      prId,
+      canMerge: vetoes.length === 0,
+      conflicted,
+      vetoes,
+      warnings: issues.filter((i) => !vetoes.some((v) => v.kind === i.kind)),
+      approvals,
+      openTaskCount,
+      builds: summary.overall,
+    };
+  }
+
+  // Evaluate the Cloud merge-check restrictions that apply to the PR's
+  // destination branch. Branching-model restrictions are not matched.
+  private async cloudRestrictionVetoes(
+    workspace: string,
+    repoSlug: string,
+    pr: PullRequest,
+    state: {
+      approvals: number;
+      openTaskCount: number;
+      needsWork: number;
+      summary: PullRequestBuildSummary;
+      issues: MergeVeto[];
+    }
+  ): Promise<MergeVeto[]> {
+    let restrictions: BranchRestriction[];
+    try {
+      restrictions = (await this.listBranchRestrictions(workspace, repoSlug))
+        .values;
+    } catch (error) {
+      if (error instanceof BitbucketError && error.statusCode === 403) {
+        state.issues.push({
+          kind: "RESTRICTION",
+          message:
+            "Branch restrictions could not be read (repository admin access required); enforced merge checks are unknown",
+        });
+        return [];
+      }
+      throw error;
+    }
+    const dest = pr.destination.branch;
+    const applicable = restrictions.filter(
+      (r) =>
+        !r.pattern.startsWith("branching_model:") &&
+        (r.pattern === dest || globToRegExp(r.pattern).test(dest))
+    );
+
+    const vetoes: MergeVeto[] = [];
+    for (const r of applicable) {
+      const required = r.value ?? 1;
+      switch (r.kind) {
+        case "require_approvals_to_merge":
+          if (state.approvals < required) {
+            vetoes.push({
+              kind: "APPROVALS",
+              message: `Needs ${required} approval(s), has ${state.approvals}`,
+            });
+          }
+          break;
+        case "require_default_reviewer_approvals_to_merge": {
+          // Unfiltered: an approving caller who is a default reviewer counts
+          const defaults = new Set(
+            (
+              await this.fetchDefaultReviewers(
+                workspace,
+                repoSlug,
+                pr.source.branch,
+                dest
+              )
+            ).map((u) => u.id)
+          );
+          const approved = pullRequestParticipants(pr).filter(
+            (p) => p.approved && defaults.has(p.user.id)
+          ).length;
+          if (approved < required) {
+            vetoes.push({
+              kind: "APPROVALS",
+              message: `Needs ${required} approval(s) from default reviewers, has ${approved}`,
+            });
+          }
+          break;
+        }
+        case "require_passing_builds_to_merge": {
+          const { counts } = state.summary;
+          if (
+            counts.SUCCESSFUL < required ||
+            counts.FAILED + counts.STOPPED + counts.INPROGRESS > 0
+          ) {
+            vetoes.push({
+              kind: "BUILDS",
+              message: `Needs ${required} successful build(s) and none failed or running, has ${counts.SUCCESSFUL} successful`,
+            });
+          }
+          break;
+        }
+        case "require_tasks_to_be_completed":
+          if (state.openTaskCount > 0) {
+            vetoes.push({
+              kind: "TASKS",
+              message: `All tasks must be resolved, ${state.openTaskCount} open`,
+            });
+          }
+          break;
+        case "require_no_changes_requested":
+          if (state.needsWork > 0) {
+            vetoes.push({
+              kind: "CHANGES_REQUESTED",
+              message: "Changes are requested and must be resolved first",
+            });
+          }
+          break;
+      }
+    }
+    return vetoes;
+  }
+
+  async declinePullRequest(
+    workspace: string,
+    repoSlug: string,
+    prId: number
+  ): Promise<PullRequest> {
+    console.log(
+      `[declinePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    if (this.isCloud) {
+      return mapCloudPullRequest(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}/decline`,
+          { method: "POST" }
+        )
+      );
+    } else {
+      return this.withPullRequestVersion(
+        workspace,
+        repoSlug,
+        prId,
+        async (current) =>
+          mapServerPullRequest(
+            await this.request(
+              `/projects/${encodeURIComponent(
+                workspace
+              )}/repos/${encodeURIComponent(
+                repoSlug
+              )}/pull-requests/${prId}/decline?version=${current.version}`,
+              { method: "POST" }
+            )
+          )
+      );
+    }
+  }
+
+  async mergePullRequest(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    options?: {
+      closeSourceBranch?: boolean;
+      mergeStrategy?: "merge_commit" | "squash" | "fast_forward";
+      message?: string;
+    }
+  ): Promise<PullRequest> {
+    console.log(
+      `[mergePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, strategy=${
+        options?.mergeStrategy || "default"
+      }`
+    );
+    if (this.isCloud) {
+      const body: any = {};
+      if (options?.closeSourceBranch !== undefined) {
+        body.close_source_branch = options.closeSourceBranch;
+      }
+      if (options?.mergeStrategy) {
+        body.merge_strategy = options.mergeStrategy;
+      }
+      if (options?.message) {
+        body.message = options.message;
+      }
+      return mapCloudPullRequest(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}/merge`,
+          {
+            method: "POST",
+            body:
+              Object.keys(body).length > 0 ? JSON.stringify(body) : undefined,
+          }
+        )
+      );
+    } else {
+      // Bitbucket Server merge
+      return this.withPullRequestVersion(
+        workspace,
+        repoSlug,
+        prId,
+        async (current) => {
+          const body: any = { version: current.version };
+          if (options?.message) {
+            body.message = options.message;
+          }
+          return mapServerPullRequest(
+            await this.request(
+              `/projects/${encodeURIComponent(
+                workspace
+              )}/repos/${encodeURIComponent(
+                repoSlug
+              )}/pull-requests/${prId}/merge?version=${current.version}`,
+              {
+                method: "POST",
+                body: JSON.stringify(body),
+              }
+            )
+          );
+        }
+      );
+    }
+  }
+
+  async updatePullRequest(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    updates: { title?: string; description?: string }
+  ): Promise<PullRequest> {
+    console.log(
+      `[updatePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    if (this.isCloud) {
+      const body: any = {};
+      if (updates.title) body.title = updates.title;
+      if (updates.description !== undefined) {
+        body.description = updates.description;
       }
-      if (options?.message) {
-        body.message = options.message;
+      return mapCloudPullRequest(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}`,
+          {
+            method: "PUT",
+            body: JSON.stringify(body),
+          }
+        )
+      );
+    } else {
+      return this.withPullRequestVersion(
+        workspace,
+        repoSlug,
+        prId,
+        async (current) => {
+          // Server requires the title and clears a description or drops
+          // reviewers that are not resent, so carry them over from the
+          // current pull request; "" clears the description on purpose
+          const body: any = {
+            version: current.version,
+            title: updates.title || current.title,
+            description:
+              updates.description !== undefined
+                ? updates.description
+                : current.description,
+            reviewers: current.reviewers ?? [],
+          };
+          return mapServerPullRequest(
+            await this.request(
+              `/projects/${encodeURIComponent(
+                workspace
+              )}/repos/${encodeURIComponent(repoSlug)}/pull-requests/${prId}`,
+              {
+                method: "PUT",
+                body: JSON.stringify(body),
+              }
+            )
+          );
+        }
+      );
+    }
+  }
+
+  async addPullRequestReviewers(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    reviewers: string[]
+  ): Promise<Participant[]> {
+    console.log(
+      `[addPullRequestReviewers] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, reviewers=${reviewers.join(
+        ", "
+      )}`
+    );
+    if (this.isCloud) {
+      // For Cloud, we need to update the PR with reviewers
+      const body = {
+        reviewers: reviewers.map((uuid) => ({ uuid })),
+      };
+      const pr = await this.request(
+        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+          repoSlug
+        )}/pullrequests/${prId}`,
+        {
+          method: "PUT",
+          body: JSON.stringify(body),
+        }
+      );
+      return mapCloudPullRequest(pr).reviewers;
+    } else {
+      // For Server, add reviewers individually
+      const promises = reviewers.map((username) =>
+        this.request<any>(
+          `/projects/${encodeURIComponent(
+            workspace
+          )}/repos/${encodeURIComponent(
+            repoSlug
+          )}/pull-requests/${prId}/participants`,
+          {
+            method: "POST",
+            body: JSON.stringify({
+              user: { name: username },
+              role: "REVIEWER",
+            }),
+          }
+        )
+      );
+      return (await Promise.all(promises)).map(mapServerParticipant);
+    }
+  }
+
+  async listPullRequestComments(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Comment>> {
+    console.log(
+      `[listPullRequestComments] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    if (this.isCloud) {
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}/comments`,
+          page
+        ),
+        mapCloudComment
+      );
+    } else {
+      // Server has no comment listing; comments arrive as COMMENTED
+      // activities with replies nested inside them. Flattening each page
+      // before paginate counts it makes limit and cursors count comments.
+      return this.paginate<Comment>(
+        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+          repoSlug
+        )}/pull-requests/${prId}/activities`,
+        page,
+        (res) => ({
+          ...res,
+          values: (res?.values ?? [])
+            .filter((a: any) => a.action === "COMMENTED" && a.comment)
+            .flatMap((a: any) =>
+              flattenServerComments(a.comment, a.commentAnchor)
+            ),
+        })
+      );
+    }
+  }
+
+  async getCommit(
+    workspace: string,
+    repoSlug: string,
+    commitHash: string
+  ): Promise<Commit> {
+    console.log(
+      `[getCommit] workspace=${workspace}, repoSlug=${repoSlug}, commitHash=${commitHash}`
+    );
+    if (this.isCloud) {
+      return mapCloudCommit(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/commit/${encodeURIComponent(commitHash)}`
+        )
+      );
+    } else {
+      return mapServerCommit(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/commits/${encodeURIComponent(commitHash)}`
+        )
+      );
+    }
+  }
+
+  async getCommitDiff(
+    workspace: string,
+    repoSlug: string,
+    commitHash: string,
+    options: DiffOptions = {}
+  ): Promise<DiffPage> {
+    console.log(
+      `[getCommitDiff] workspace=${workspace}, repoSlug=${repoSlug}, commitHash=${commitHash}, format=${
+        options.format || "unified"
+      }`
+    );
+    const path = this.isCloud
+      ? `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+          repoSlug
+        )}/diff/${encodeURIComponent(commitHash)}`
+      : `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+          repoSlug
+        )}/commits/${encodeURIComponent(commitHash)}/diff`;
+    return this.diffPage(path, options);
+  }
+
+  async compareBranches(
+    workspace: string,
+    repoSlug: string,
+    source: string,
+    destination: string,
+    options: DiffOptions = {}
+  ): Promise<DiffPage> {
+    console.log(
+      `[compareBranches] workspace=${workspace}, repoSlug=${repoSlug}, source=${source}, dest=${destination}, format=${
+        options.format || "unified"
+      }`
+    );
+    const path = this.isCloud
+      ? // Cloud uses spec format: destination..source
+        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+          repoSlug
+        )}/diff/${encodeURIComponent(destination)}..${encodeURIComponent(
+          source
+        )}`
+      : // Server uses from/to query params
+        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+          repoSlug
+        )}/compare/diff?from=${encodeURIComponent(
+          source
+        )}&to=${encodeURIComponent(destination)}`;
+    return this.diffPage(path, options);
+  }
+
+  // Cloud returns git's unified format, Server JSON
+  private fetchDiff(path: string): Promise<unknown> {
+    return this.request(
+      path,
+      this.isCloud ? { responseType: "text" } : undefined
+    );
+  }
+
+  private async diffPage(
+    path: string,
+    options: DiffOptions
+  ): Promise<DiffPage> {
+    if (
+      options.maxBytes !== undefined &&
+      (!Number.isInteger(options.maxBytes) || options.maxBytes < 1)
+    ) {
+      throw new BitbucketError({
+        message: "maxBytes must be a positive integer",
+        errorType: "VALIDATION_ERROR",
+        details: { maxBytes: options.maxBytes },
+        suggestion: "Pass a whole number of bytes, or omit maxBytes.",
+        isRetryable: false,
+      });
+    }
+    return this.formatDiff(await this.fetchDiff(path), path, options);
+  }
+
+  /**
+   * Filter a backend diff and return the page that fits `maxBytes`, in the
+   * requested format. Pages end at file boundaries where possible; a file
+   * too large for one page is split at hunk and then line boundaries. Cloud's
+   * unified text is kept as-is for whole files; everything else is rendered
+   * from the parsed model.
+   */
+  private formatDiff(
+    raw: unknown,
+    path: string,
+    options: DiffOptions
+  ): DiffPage {
+    const format = options.format ?? "unified";
+    const files = this.parseDiff(raw);
+    const chunks =
+      this.isCloud && format === "unified"
+        ? splitUnifiedDiff(typeof raw === "string" ? raw : "")
+        : undefined;
+
+    const skipped: SkippedDiffFile[] = [];
+    const kept: number[] = [];
+    files.forEach((file, i) => {
+      const reason = diffSkipReason(file, {
+        include: options.include,
+        exclude: options.exclude,
+        ignore: options.includeIgnored ? undefined : this.diffIgnore,
+      });
+      if (reason) {
+        skipped.push({ path: file.path, reason });
+      } else {
+        kept.push(i);
+      }
+    });
+    if (format === "stat") {
+      return { ...summarizeDiff(kept.map((i) => files[i])), skipped };
+    }
+
+    const filter = JSON.stringify([
+      options.include ?? [],
+      options.exclude ?? [],
+      Boolean(options.includeIgnored),
+    ]);
+    const diff = createHash("sha256")
+      .update(typeof raw === "string" ? raw : JSON.stringify(raw))
+      .digest("base64url");
+    let next = 0;
+    let hunk = 0;
+    let line = 0;
+    if (options.cursor) {
+      const cursor = decodeDiffCursor(
+        options.cursor,
+        new URL(this.baseUrl).origin
+      );
+      if (cursor.path !== path || cursor.filter !== filter) {
+        throw new BitbucketError({
+          message:
+            cursor.path !== path
+              ? "Cursor belongs to a different diff"
+              : "Cursor was issued for different include, exclude or includeIgnored options",
+          errorType: "VALIDATION_ERROR",
+          details: { cursor: options.cursor },
+          suggestion:
+            "Pass the nextCursor from a previous call with the same pull request, commit or branches and the same filters, or omit cursor to start from the first file.",
+          isRetryable: false,
+        });
+      }
+      if (cursor.diff !== diff) {
+        throw new BitbucketError({
+          message: "The diff has changed since the cursor was issued",
+          errorType: "VALIDATION_ERROR",
+          details: { cursor: options.cursor },
+          suggestion:
+            "New commits were pushed in between. Omit cursor to page through the current diff from the first file.",
+          isRetryable: false,
+        });
+      }
+      ({ skip: next, hunk, line } = cursor);
+    }
+
+    const render = (file: DiffFile) =>
+      format === "structured"
+        ? JSON.stringify(file)
+        : formatUnifiedDiff([file]);
+    const hunkBytes = (h: DiffHunk) =>
+      format === "structured"
+        ? Buffer.byteLength(JSON.stringify(h)) + 1
+        : Buffer.byteLength(formatUnifiedHunk(h));
+    const budget = options.maxBytes ?? Infinity;
+    const page: Array<{ file: DiffFile; text: string }> = [];
+    let used = 0;
+    let truncatedPath: string | undefined;
+    while (next < kept.length) {
+      const file = files[kept[next]];
+      if (hunk === 0 && line === 0) {
+        const text = chunks?.[kept[next]] ?? render(file);
+        const size = Buffer.byteLength(text);
+        if (used + size <= budget) {
+          page.push({ file, text });
+          used += size;
+          next++;
+          continue;
+        }
+        if (page.length > 0) break;
+      }
+
+      // Only the first file of a page is split; take what fits, and at
+      // least one line so paging always advances
+      const hunks: DiffHunk[] = [];
+      let size =
+        format === "structured"
+          ? Buffer.byteLength(JSON.stringify({ ...file, hunks: [] }))
+          : Buffer.byteLength(formatUnifiedHeader(file));
+      while (hunk < file.hunks.length) {
+        const current = file.hunks[hunk];
+        const rest = sliceHunk(current, line, current.lines.length);
+        if (size + hunkBytes(rest) <= budget) {
+          hunks.push(rest);
+          size += hunkBytes(rest);
+          hunk++;
+          line = 0;
+          continue;
+        }
+        let fit = hunks.length === 0 ? 1 : 0;
+        let high = current.lines.length - line - 1;
+        while (fit < high) {
+          const mid = Math.ceil((fit + high) / 2);
+          if (
+            size + hunkBytes(sliceHunk(current, line, line + mid)) <=
+            budget
+          ) {
+            fit = mid;
+          } else {
+            high = mid - 1;
+          }
+        }
+        if (fit > 0) {
+          hunks.push(sliceHunk(current, line, line + fit));
+          line += fit;
+          if (line >= current.lines.length) {
+            hunk++;
+            line = 0;
+          }
+        }
+        break;
+      }
+      const part = { ...file, hunks };
+      page.push({ file: part, text: render(part) });
+      used += size;
+      if (hunk < file.hunks.length) {
+        truncatedPath = file.path;
+        break;
+      }
+      next++;
+      hunk = 0;
+      line = 0;
+    }
+    const nextCursor =
+      next < kept.length
+        ? encodeDiffCursor({ path, skip: next, hunk, line, filter, diff })
+        : undefined;
+
+    if (format === "structured") {
+      return {
+        files: page.map((p) => p.file),
+        skipped,
+        truncatedPath,
+        nextCursor,
+      };
+    }
+    return {
+      diff: page.map((p) => p.text).join(""),
+      skipped,
+      truncatedPath,
+      nextCursor,
+    };
+  }
+
+  private parseDiff(raw: unknown): DiffFile[] {
+    return this.isCloud
+      ? parseUnifiedDiff(typeof raw === "string" ? raw : "")
+      : mapServerDiff(raw);
+  }
+
+  /**
+   * Comment on `line` of `filePath`, or on the range `line..endLine`. Lines
+   * are numbered in the new file, except for REMOVED lines, which use the
+   * old file's numbering. The anchor is checked against the PR diff first so
+   * a bad line fails with the nearest valid lines instead of an opaque 400.
+   */
+  async addInlineCommentAfterReview(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    filePath: string,
+    line: number,
+    text: string,
+    lineType: DiffLineType = "ADDED",
+    endLine?: number
+  ): Promise<Comment> {
+    console.log(
+      `[addInlineCommentAfterReview] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, file=${filePath}, line=${line}, endLine=${
+        endLine ?? "none"
+      }, lineType=${lineType}`
+    );
+    if (endLine !== undefined && endLine < line) {
+      throw new BitbucketError({
+        message: "endLine must not be before line",
+        errorType: "VALIDATION_ERROR",
+        details: { filePath, line, endLine },
+        suggestion:
+          "Pass the first line of the range as line and the last as endLine.",
+        isRetryable: false,
+      });
+    }
+    const side: DiffSide = lineType === "REMOVED" ? "old" : "new";
+    const files = this.parseDiff(
+      await this.fetchDiff(this.pullRequestDiffPath(workspace, repoSlug, prId))
+    );
+    const file = findDiffFile(files, filePath);
+    if (!file) {
+      throw new BitbucketError({
+        message: `${filePath} is not changed in pull request ${prId}`,
+        errorType: "VALIDATION_ERROR",
+        details: {
+          filePath,
+          changedFiles: files.slice(0, 50).map((f) => f.path),
+        },
+        suggestion:
+          "Inline comments can only be added to files in the pull request diff. Use one of changedFiles, relative to the repository root.",
+        isRetryable: false,
+      });
+    }
+    const anchor = (n: number) => {
+      const found = findDiffLine(file, n, side);
+      if (!found) {
+        throw new BitbucketError({
+          message:
+            side === "old"
+              ? `Line ${n} is not a removed line in the diff of ${file.path}`
+              : `Line ${n} of ${file.path} is not shown in the pull request diff`,
+          errorType: "VALIDATION_ERROR",
+          details: {
+            filePath: file.path,
+            line: n,
+            lineType,
+            nearest: nearestDiffLines(file, n, side).map((l) => ({
+              line: side === "old" ? l.oldLine : l.newLine,
+              lineType: l.type,
+              text: l.text,
+            })),
+          },
+          suggestion:
+            side === "old"
+              ? "REMOVED comments use old-file line numbers and must target a deleted line. Pick one of the nearest lines, or use lineType ADDED to comment on the new file."
+              : "Line numbers refer to the new version of the file and must be shown in the diff. Pick one of the nearest lines, or use lineType REMOVED for deleted lines.",
+          isRetryable: false,
+        });
+      }
+      return found;
+    };
+    const start = anchor(line);
+    const end = endLine !== undefined ? anchor(endLine) : start;
+    const last = endLine ?? line;
+
+    if (this.isCloud) {
+      const inline: any = { path: file.path };
+      if (side === "old") {
+        inline.from = last;
+        if (endLine !== undefined) inline.start_from = line;
+      } else {
+        inline.to = last;
+        if (endLine !== undefined) inline.start_to = line;
+      }
+      const body = { content: { raw: text }, inline };
+      return mapCloudComment(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}/comments`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
+    } else {
+      const anchorBody: any = {
+        line: last,
+        lineType: end.type,
+        fileType: side === "old" ? "FROM" : "TO",
+        path: file.path,
+      };
+      if (file.oldPath) anchorBody.srcPath = file.oldPath;
+      if (endLine !== undefined) {
+        anchorBody.multilineMarker = {
+          startLine: line,
+          startLineType: start.type,
+        };
+      }
+      const body = { text, anchor: anchorBody };
+      return mapServerComment(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/pull-requests/${prId}/comments`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
+    }
+  }
+
+  async listPipelines(
+    workspace: string,
+    repoSlug: string,
+    filter: { branch?: string; prId?: number } = {},
+    page?: PaginationOptions
+  ) {
+    console.log(
+      `[listPipelines] workspace=${workspace}, repoSlug=${repoSlug}, branch=${
+        filter.branch || "any"
+      }, prId=${filter.prId ?? "none"}`
+    );
+    this.requireCloud("Pipelines");
+    const params = new URLSearchParams({ sort: "-created_on" });
+    if (filter.branch) {
+      params.set("target.branch", filter.branch);
+    }
+    if (filter.prId !== undefined) {
+      // Branch and pull request pipelines both build the PR's head commit
+      const pr = await this.getPullRequest(workspace, repoSlug, filter.prId);
+      if (!pr.source.commit) {
+        throw new BitbucketError({
+          message: `Pull request ${filter.prId} has no source commit to match pipelines against`,
+          errorType: "VALIDATION_ERROR",
+          details: { prId: filter.prId },
+          suggestion:
+            "The source branch may have been deleted. Filter by branch instead.",
+          isRetryable: false,
+        });
+      }
+      // PR payloads carry the short hash; the filter needs an exact match
+      const { hash } = await this.getCommit(
+        workspace,
+        repoSlug,
+        pr.source.commit
+      );
+      params.set("target.commit.hash", hash);
+    }
+    return this.paginate(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/pipelines/?${params.toString()}`,
+      page
+    );
+  }
+
+  async triggerPipeline(
+    workspace: string,
+    repoSlug: string,
+    args: {
+      branch: string;
+      commitHash?: string;
+      customPipeline?: string; // Name under pipelines.custom in bitbucket-pipelines.yml
+      variables?: Array<{ key: string; value: string; secured?: boolean }>;
+    }
+  ) {
+    console.log(
+      `[triggerPipeline] workspace=${workspace}, repoSlug=${repoSlug}, branch=${
+        args.branch
+      }, custom=${args.customPipeline || "none"}`
+    );
+    this.requireCloud("Pipelines");
+    const target: any = {
+      type: "pipeline_ref_target",
+      ref_type: "branch",
+      ref_name: args.branch,
+    };
+    if (args.commitHash) {
+      target.commit = { type: "commit", hash: args.commitHash };
+    }
+    if (args.customPipeline) {
+      target.selector = { type: "custom", pattern: args.customPipeline };
+    }
+    const body: any = { target };
+    if (args.variables?.length) {
+      body.variables = args.variables.map((v) => ({
+        key: v.key,
+        value: v.value,
+        secured: v.secured ?? false,
+      }));
+    }
+    return this.request(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/pipelines/`,
+      {
+        method: "POST",
+        body: JSON.stringify(body),
       }
-      return this.request(
+    );
+  }
+
+  async getPipeline(workspace: string, repoSlug: string, pipelineId: string) {
+    console.log(
+      `[getPipeline] workspace=${workspace}, repoSlug=${repoSlug}, pipelineId=${pipelineId}`
+    );
+    this.requireCloud("Pipelines");
+    const base = `/repositories/${encodeURIComponent(
+      workspace
+    )}/${encodeURIComponent(repoSlug)}/pipelines/${encodeURIComponent(
+      pipelineId
+    )}`;
+    const [pipeline, steps] = await Promise.all([
+      this.request(base),
+      this.paginate(`${base}/steps/`),
+    ]);
+    return { pipeline, steps: steps.values };
+  }
+
+  async stopPipeline(workspace: string, repoSlug: string, pipelineId: string) {
+    console.log(
+      `[stopPipeline] workspace=${workspace}, repoSlug=${repoSlug}, pipelineId=${pipelineId}`
+    );
+    this.requireCloud("Pipelines");
+    return this.request(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/pipelines/${encodeURIComponent(pipelineId)}/stopPipeline`,
+      // Stopping an already stopped pipeline is a no-op, so retries are safe
+      { method: "POST", idempotent: true }
+    );
+  }
+
+  /**
+   * The last `tailLines` lines of a step log. The whole log is downloaded so
+   * that `totalLines` can be reported; a byte range cannot be mapped to
+   * lines.
+   */
+  async getPipelineStepLog(
+    workspace: string,
+    repoSlug: string,
+    pipelineId: string,
+    stepId: string,
+    tailLines: number = 200
+  ) {
+    console.log(
+      `[getPipelineStepLog] workspace=${workspace}, repoSlug=${repoSlug}, pipelineId=${pipelineId}, stepId=${stepId}, tailLines=${tailLines}`
+    );
+    this.requireCloud("Pipelines");
+    if (!Number.isInteger(tailLines) || tailLines < 1) {
+      throw new BitbucketError({
+        message: "tailLines must be a positive integer",
+        errorType: "VALIDATION_ERROR",
+        details: { tailLines },
+        suggestion: "Pass a whole number of lines, or omit tailLines for 200.",
+        isRetryable: false,
+      });
+    }
+    const log = await this.request<string>(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/pipelines/${encodeURIComponent(
+        pipelineId
+      )}/steps/${encodeURIComponent(stepId)}/log`,
+      { headers: { Accept: "*/*" }, responseType: "text" }
+    );
+    const lines = (log ?? "").split("\n");
+    const tail = lines.slice(-tailLines);
+    return {
+      totalLines: lines.length,
+      truncated: lines.length > tail.length,
+      log: tail.join("\n"),
+    };
+  }
+
+  async listEnvironments(
+    workspace: string,
+    repoSlug: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Environment>> {
+    console.log(
+      `[listEnvironments] workspace=${workspace}, repoSlug=${repoSlug}`
+    );
+    this.requireCloud("Deployments");
+    return mapPage(
+      await this.paginate(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests/${prId}/merge`,
+        )}/environments/`,
+        page
+      ),
+      mapCloudEnvironment
+    );
+  }
+
+  /**
+   * Latest deployment for each environment, or only for `environment` (name,
+   * slug or UUID). Environments that were never deployed to have no
+   * deployment.
+   */
+  async getLatestDeployments(
+    workspace: string,
+    repoSlug: string,
+    environment?: string
+  ): Promise<
+    Array<{ environment: Environment; deployment: Deployment | null }>
+  > {
+    console.log(
+      `[getLatestDeployments] workspace=${workspace}, repoSlug=${repoSlug}, environment=${
+        environment || "all"
+      }`
+    );
+    this.requireCloud("Deployments");
+    const environments = environment
+      ? [await this.findEnvironment(workspace, repoSlug, environment)]
+      : await this.allEnvironments(workspace, repoSlug);
+    return Promise.all(
+      environments.map(async (env) => {
+        const params = new URLSearchParams({
+          environment: env.uuid,
+          sort: "-state.started_on",
+          pagelen: "1",
+        });
+        const res = await this.request<any>(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/deployments/?${params.toString()}`
+        );
+        const latest = res?.values?.[0];
+        return {
+          environment: env,
+          deployment: latest ? mapCloudDeployment(latest) : null,
+        };
+      })
+    );
+  }
+
+  /**
+   * Repository pipeline variables, or the deployment variables of
+   * `environment` when given. Secured values are never returned.
+   */
+  async listVariables(
+    workspace: string,
+    repoSlug: string,
+    environment?: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<PipelineVariable>> {
+    console.log(
+      `[listVariables] workspace=${workspace}, repoSlug=${repoSlug}, environment=${
+        environment || "none"
+      }`
+    );
+    this.requireCloud("Pipeline variables");
+    const path = await this.variablesPath(workspace, repoSlug, environment);
+    return mapPage(await this.paginate(path, page), mapCloudVariable);
+  }
+
+  /**
+   * Create the variable, or update its value if the key already exists in
+   * that scope. A secured variable stays secured unless `secured` is passed.
+   */
+  async setVariable(
+    workspace: string,
+    repoSlug: string,
+    args: {
+      key: string;
+      value: string;
+      secured?: boolean;
+      environment?: string;
+    }
+  ): Promise<{ variable: PipelineVariable; created: boolean }> {
+    // Never log the value
+    console.log(
+      `[setVariable] workspace=${workspace}, repoSlug=${repoSlug}, key=${
+        args.key
+      }, environment=${args.environment || "none"}`
+    );
+    this.requireCloud("Pipeline variables");
+    const path = await this.variablesPath(
+      workspace,
+      repoSlug,
+      args.environment
+    );
+    const existing = await this.findVariable(path, args.key);
+    const body = {
+      key: args.key,
+      value: args.value,
+      secured: args.secured ?? existing?.secured ?? false,
+    };
+    const res = existing
+      ? await this.request<any>(
+          `${path}/${encodeURIComponent(existing.uuid)}`,
+          { method: "PUT", body: JSON.stringify(body) }
+        )
+      : await this.request<any>(path, {
+          method: "POST",
+          body: JSON.stringify(body),
+        });
+    return { variable: mapCloudVariable(res), created: !existing };
+  }
+
+  async deleteVariable(
+    workspace: string,
+    repoSlug: string,
+    key: string,
+    environment?: string
+  ) {
+    console.log(
+      `[deleteVariable] workspace=${workspace}, repoSlug=${repoSlug}, key=${key}, environment=${
+        environment || "none"
+      }`
+    );
+    this.requireCloud("Pipeline variables");
+    const path = await this.variablesPath(workspace, repoSlug, environment);
+    const existing = await this.findVariable(path, key);
+    if (!existing) {
+      throw new BitbucketError({
+        message: `Variable ${key} not found`,
+        statusCode: 404,
+        errorType: "NOT_FOUND_ERROR",
+        details: { workspace, repoSlug, key, environment },
+        suggestion:
+          "Variable keys are case-sensitive. List the variables of that scope with variables_list.",
+        isRetryable: false,
+      });
+    }
+    await this.request(`${path}/${encodeURIComponent(existing.uuid)}`, {
+      method: "DELETE",
+    });
+    return { deleted: true, key, uuid: existing.uuid };
+  }
+
+  private async allEnvironments(
+    workspace: string,
+    repoSlug: string
+  ): Promise<Environment[]> {
+    return (await this.listEnvironments(workspace, repoSlug)).values;
+  }
+
+  private async findEnvironment(
+    workspace: string,
+    repoSlug: string,
+    environment: string
+  ): Promise<Environment> {
+    const environments = await this.allEnvironments(workspace, repoSlug);
+    const wanted = environment.toLowerCase();
+    const match = environments.find(
+      (e) =>
+        e.uuid === environment ||
+        e.name.toLowerCase() === wanted ||
+        e.slug?.toLowerCase() === wanted
+    );
+    if (!match) {
+      throw new BitbucketError({
+        message: `Deployment environment ${environment} not found`,
+        statusCode: 404,
+        errorType: "NOT_FOUND_ERROR",
+        details: {
+          workspace,
+          repoSlug,
+          environment,
+          available: environments.map((e) => e.name),
+        },
+        suggestion:
+          "Pass an environment name, slug or UUID from deployment_environments_list.",
+        isRetryable: false,
+      });
+    }
+    return match;
+  }
+
+  private async variablesPath(
+    workspace: string,
+    repoSlug: string,
+    environment?: string
+  ): Promise<string> {
+    const base = `/repositories/${encodeURIComponent(
+      workspace
+    )}/${encodeURIComponent(repoSlug)}`;
+    if (!environment) {
+      return `${base}/pipelines_config/variables`;
+    }
+    const env = await this.findEnvironment(workspace, repoSlug, environment);
+    return `${base}/deployments_config/environments/${encodeURIComponent(
+      env.uuid
+    )}/variables`;
+  }
+
+  private async findVariable(
+    path: string,
+    key: string
+  ): Promise<PipelineVariable | undefined> {
+    const { values } = await this.paginate(path);
+    const match = values.find((v: any) => v?.key === key);
+    return match ? mapCloudVariable(match) : undefined;
+  }
+
+  async listCommitStatuses(
+    workspace: string,
+    repoSlug: string,
+    commitHash: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<BuildStatus>> {
+    console.log(
+      `[listCommitStatuses] workspace=${workspace}, repoSlug=${repoSlug}, commitHash=${commitHash}`
+    );
+    if (this.isCloud) {
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/commit/${encodeURIComponent(commitHash)}/statuses`,
+          page
+        ),
+        mapCloudBuildStatus
+      );
+    } else {
+      // Build statuses are global to a commit on Server, not per repository
+      return mapPage(
+        await this.paginate(
+          `${this.serverRestUrl(
+            "build-status/1.0"
+          )}/commits/${encodeURIComponent(commitHash)}`,
+          page
+        ),
+        mapServerBuildStatus
+      );
+    }
+  }
+
+  async createCommitStatus(
+    workspace: string,
+    repoSlug: string,
+    commitHash: string,
+    status: {
+      key: string;
+      state: BuildState;
+      url: string;
+      name?: string;
+      description?: string;
+    }
+  ): Promise<BuildStatus> {
+    console.log(
+      `[createCommitStatus] workspace=${workspace}, repoSlug=${repoSlug}, commitHash=${commitHash}, key=${status.key}, state=${status.state}`
+    );
+    const body: any = {
+      key: status.key,
+      state: status.state,
+      url: status.url,
+    };
+    if (status.name) body.name = status.name;
+    if (status.description) body.description = status.description;
+    if (this.isCloud) {
+      return mapCloudBuildStatus(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/commit/${encodeURIComponent(commitHash)}/statuses/build`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+            // Statuses are keyed, so posting the same one again just updates it
+            idempotent: true,
+          }
+        )
+      );
+    } else {
+      // build-status/1.0 only accepts SUCCESSFUL, FAILED and INPROGRESS
+      if (body.state === "STOPPED") body.state = "FAILED";
+      await this.request(
+        `${this.serverRestUrl(
+          "build-status/1.0"
+        )}/commits/${encodeURIComponent(commitHash)}`,
         {
           method: "POST",
-          body: Object.keys(body).length > 0 ? JSON.stringify(body) : undefined,
+          body: JSON.stringify(body),
+          idempotent: true,
         }
       );
+      // Server answers 204 No Content; echo back what was stored
+      return mapServerBuildStatus({ ...body, dateAdded: Date.now() });
+    }
+  }
+
+  async getPullRequestBuildSummary(
+    workspace: string,
+    repoSlug: string,
+    prId: number
+  ): Promise<PullRequestBuildSummary> {
+    console.log(
+      `[getPullRequestBuildSummary] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    const pr = await this.getPullRequest(workspace, repoSlug, prId);
+    const commit = pr.source.commit;
+    if (!commit) {
+      throw new BitbucketError({
+        message: "Pull request has no source commit",
+        errorType: "VALIDATION_ERROR",
+        details: { workspace, repoSlug, prId },
+        suggestion:
+          "The source branch may have been deleted. Check the pull request with pr_get.",
+        isRetryable: false,
+      });
+    }
+    const statuses = await this.listCommitStatuses(workspace, repoSlug, commit);
+
+    // A build key can be reported several times; only the newest counts
+    const latest = new Map<string, BuildStatus>();
+    for (const s of statuses.values) {
+      const seen = latest.get(s.key);
+      if (!seen || (s.updatedAt ?? "") > (seen.updatedAt ?? "")) {
+        latest.set(s.key, s);
+      }
+    }
+    const builds = [...latest.values()];
+    const counts: Record<BuildState, number> = {
+      SUCCESSFUL: 0,
+      FAILED: 0,
+      INPROGRESS: 0,
+      STOPPED: 0,
+    };
+    for (const b of builds) {
+      counts[b.state] = (counts[b.state] ?? 0) + 1;
+    }
+    const overall: PullRequestBuildSummary["overall"] =
+      builds.length === 0
+        ? "NONE"
+        : counts.FAILED > 0 || counts.STOPPED > 0
+          ? "FAILED"
+          : counts.INPROGRESS > 0
+            ? "INPROGRESS"
+            : "SUCCESSFUL";
+    return { prId, commit, overall, counts, builds };
+  }
+
+  async listTags(
+    workspace: string,
+    repoSlug: string,
+    filter?: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Tag>> {
+    console.log(
+      `[listTags] workspace=${workspace}, repoSlug=${repoSlug}, filter=${
+        filter || "none"
+      }`
+    );
+    if (this.isCloud) {
+      const params = new URLSearchParams({ sort: "-target.date" });
+      if (filter) params.set("q", `name ~ ${JSON.stringify(filter)}`);
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/refs/tags?${params.toString()}`,
+          page
+        ),
+        mapCloudTag
+      );
+    } else {
+      const params = new URLSearchParams({ orderBy: "MODIFICATION" });
+      if (filter) params.set("filterText", filter);
+      return mapPage(
+        await this.paginate(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/tags?${params.toString()}`,
+          page
+        ),
+        mapServerTag
+      );
+    }
+  }
+
+  async getTag(
+    workspace: string,
+    repoSlug: string,
+    name: string
+  ): Promise<Tag> {
+    console.log(
+      `[getTag] workspace=${workspace}, repoSlug=${repoSlug}, name=${name}`
+    );
+    if (this.isCloud) {
+      return mapCloudTag(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/refs/tags/${encodeURIComponent(name)}`
+        )
+      );
+    } else {
+      return mapServerTag(
+        await this.request(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/tags/${encodeURIComponent(name)}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Create a tag at a commit hash or at the head of a branch. Passing a
+   * message makes the tag annotated.
+   */
+  async createTag(
+    workspace: string,
+    repoSlug: string,
+    args: { name: string; hash?: string; branch?: string; message?: string }
+  ): Promise<Tag> {
+    console.log(
+      `[createTag] workspace=${workspace}, repoSlug=${repoSlug}, name=${
+        args.name
+      }, hash=${args.hash || "none"}, branch=${args.branch || "none"}`
+    );
+    if (!args.hash === !args.branch) {
+      throw new BitbucketError({
+        message: "Exactly one of hash or branch is required",
+        errorType: "VALIDATION_ERROR",
+        details: { name: args.name, hash: args.hash, branch: args.branch },
+        suggestion:
+          "Pass hash to tag a specific commit, or branch to tag its latest commit.",
+        isRetryable: false,
+      });
+    }
+    if (this.isCloud) {
+      // Cloud only tags commits, so resolve the branch head first
+      let hash = args.hash;
+      if (!hash) {
+        const branch = await this.request<any>(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/refs/branches/${encodeURIComponent(args.branch!)}`
+        );
+        hash = branch?.target?.hash;
+      }
+      const body: any = { name: args.name, target: { hash } };
+      if (args.message) body.message = args.message;
+      return mapCloudTag(
+        await this.request(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/refs/tags`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
+    } else {
+      const body: any = {
+        name: args.name,
+        startPoint: args.hash ?? `refs/heads/${args.branch}`,
+      };
+      if (args.message) body.message = args.message;
+      return mapServerTag(
+        await this.request(
+          `${this.serverRestUrl("git/1.0")}/projects/${encodeURIComponent(
+            workspace
+          )}/repos/${encodeURIComponent(repoSlug)}/tags`,
+          {
+            method: "POST",
+            body: JSON.stringify(body),
+          }
+        )
+      );
+    }
+  }
+
+  async deleteTag(workspace: string, repoSlug: string, name: string) {
+    console.log(
+      `[deleteTag] workspace=${workspace}, repoSlug=${repoSlug}, name=${name}`
+    );
+    if (this.isCloud) {
+      await this.request(
+        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+          repoSlug
+        )}/refs/tags/${encodeURIComponent(name)}`,
+        { method: "DELETE" }
+      );
+    } else {
+      await this.request(
+        `${this.serverRestUrl("git/1.0")}/projects/${encodeURIComponent(
+          workspace
+        )}/repos/${encodeURIComponent(repoSlug)}/tags/${encodeURIComponent(
+          name
+        )}`,
+        { method: "DELETE" }
+      );
+    }
+    return { deleted: true, name };
+  }
+
+  async listIssues(
+    workspace: string,
+    repoSlug: string,
+    filter: IssueFilter = {},
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Issue>> {
+    console.log(
+      `[listIssues] workspace=${workspace}, repoSlug=${repoSlug}, filter=${JSON.stringify(
+        filter
+      )}`
+    );
+    this.requireCloud("Issues");
+    const conditions: string[] = [];
+    const states = filter.state
+      ? Array.isArray(filter.state)
+        ? filter.state
+        : [filter.state]
+      : [];
+    if (states.length > 0) {
+      conditions.push(
+        `(${states.map((st) => `state = ${bbqlString(st)}`).join(" OR ")})`
+      );
+    }
+    if (filter.assignee) {
+      const a = bbqlString(filter.assignee);
+      conditions.push(
+        /^\{.*\}$/.test(filter.assignee)
+          ? `assignee.uuid = ${a}`
+          : `(assignee.account_id = ${a} OR assignee.nickname = ${a})`
+      );
+    }
+    if (filter.kind) conditions.push(`kind = ${bbqlString(filter.kind)}`);
+    if (filter.priority) {
+      conditions.push(`priority = ${bbqlString(filter.priority)}`);
+    }
+    if (filter.query) conditions.push(`(${filter.query})`);
+
+    const params = new URLSearchParams({ sort: "-updated_on" });
+    if (conditions.length > 0) params.set("q", conditions.join(" AND "));
+    return mapPage(
+      await this.paginate(
+        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+          repoSlug
+        )}/issues?${params.toString()}`,
+        page
+      ),
+      mapCloudIssue
+    );
+  }
+
+  async getIssue(
+    workspace: string,
+    repoSlug: string,
+    issueId: number
+  ): Promise<{ issue: Issue; comments: Comment[] }> {
+    console.log(
+      `[getIssue] workspace=${workspace}, repoSlug=${repoSlug}, issueId=${issueId}`
+    );
+    this.requireCloud("Issues");
+    const base = `/repositories/${encodeURIComponent(
+      workspace
+    )}/${encodeURIComponent(repoSlug)}/issues/${issueId}`;
+    const [issue, comments] = await Promise.all([
+      this.request<any>(base),
+      this.paginate(`${base}/comments?sort=created_on`),
+    ]);
+    return {
+      issue: mapCloudIssue(issue),
+      comments: comments.values.map(mapCloudComment),
+    };
+  }
+
+  async createIssue(
+    workspace: string,
+    repoSlug: string,
+    fields: IssueInput & { title: string }
+  ): Promise<Issue> {
+    console.log(
+      `[createIssue] workspace=${workspace}, repoSlug=${repoSlug}, title=${fields.title}`
+    );
+    this.requireCloud("Issues");
+    const res = await this.request<any>(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/issues`,
+      { method: "POST", body: JSON.stringify(cloudIssueBody(fields)) }
+    );
+    return mapCloudIssue(res);
+  }
+
+  async updateIssue(
+    workspace: string,
+    repoSlug: string,
+    issueId: number,
+    fields: IssueInput
+  ): Promise<Issue> {
+    console.log(
+      `[updateIssue] workspace=${workspace}, repoSlug=${repoSlug}, issueId=${issueId}, fields=${Object.keys(
+        fields
+      ).join(", ")}`
+    );
+    this.requireCloud("Issues");
+    const res = await this.request<any>(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/issues/${issueId}`,
+      { method: "PUT", body: JSON.stringify(cloudIssueBody(fields)) }
+    );
+    return mapCloudIssue(res);
+  }
+
+  /**
+   * Move an issue to a new state through the changes API, which records the
+   * transition (and the optional message) in the issue's history.
+   */
+  async setIssueState(
+    workspace: string,
+    repoSlug: string,
+    issueId: number,
+    state: IssueState,
+    message?: string
+  ): Promise<Issue> {
+    console.log(
+      `[setIssueState] workspace=${workspace}, repoSlug=${repoSlug}, issueId=${issueId}, state=${state}`
+    );
+    this.requireCloud("Issues");
+    const base = `/repositories/${encodeURIComponent(
+      workspace
+    )}/${encodeURIComponent(repoSlug)}/issues/${issueId}`;
+    const body: any = { changes: { state: { new: state } } };
+    if (message) body.message = { raw: message };
+    await this.request(`${base}/changes`, {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+    return mapCloudIssue(await this.request<any>(base));
+  }
+
+  async addIssueComment(
+    workspace: string,
+    repoSlug: string,
+    issueId: number,
+    content: string
+  ): Promise<Comment> {
+    console.log(
+      `[addIssueComment] workspace=${workspace}, repoSlug=${repoSlug}, issueId=${issueId}`
+    );
+    this.requireCloud("Issues");
+    const res = await this.request<any>(
+      `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+        repoSlug
+      )}/issues/${issueId}/comments`,
+      { method: "POST", body: JSON.stringify({ content: { raw: content } }) }
+    );
+    return mapCloudComment(res);
+  }
+
+  async listWebhooks(
+    workspace: string,
+    repoSlug: string,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<Webhook>> {
+    console.log(`[listWebhooks] workspace=${workspace}, repoSlug=${repoSlug}`);
+    if (this.isCloud) {
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/hooks`,
+          page
+        ),
+        mapCloudWebhook
+      );
     } else {
-      // Bitbucket Server merge
-      const body: any = { version: 0 }; // Version is required for Server
-      if (options?.message) {
-        body.message = options.message;
-      }
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/pull-requests/${prId}/merge`,
-        {
-          method: "POST",
-          body: JSON.stringify(body),
-        }
+      return mapPage(
+        await this.paginate(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+            repoSlug
+          )}/webhooks`,
+          page
+        ),
+        mapServerWebhook
       );
     }
   }
 
-  async updatePullRequest(
+  async createWebhook(
     workspace: string,
     repoSlug: string,
-    prId: number,
-    updates: { title?: string; description?: string }
-  ) {
+    input: WebhookInput & { url: string; events: string[] }
+  ): Promise<Webhook> {
     console.log(
-      `[updatePullRequest] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+      `[createWebhook] workspace=${workspace}, repoSlug=${repoSlug}, url=${
+        input.url
+      }, events=${input.events.join(", ")}`
     );
     if (this.isCloud) {
-      const body: any = {};
-      if (updates.title) body.title = updates.title;
-      if (updates.description) body.description = updates.description;
-      return this.request(
+      const body: any = {
+        description: input.name ?? "",
+        url: input.url,
+        active: input.active ?? true,
+        events: input.events,
+      };
+      if (input.secret) body.secret = input.secret;
+      const res = await this.request<any>(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests/${prId}`,
-        {
-          method: "PUT",
-          body: JSON.stringify(body),
-        }
+        )}/hooks`,
+        { method: "POST", body: JSON.stringify(body) }
       );
+      return mapCloudWebhook(res);
     } else {
-      const body: any = { version: 0 }; // Version required for Server
-      if (updates.title) body.title = updates.title;
-      if (updates.description) body.description = updates.description;
-      return this.request(
+      const body: any = {
+        // Server requires a name
+        name: input.name || input.url,
+        url: input.url,
+        active: input.active ?? true,
+        events: input.events,
+      };
+      if (input.secret) body.configuration = { secret: input.secret };
+      const res = await this.request<any>(
         `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
           repoSlug
-        )}/pull-requests/${prId}`,
-        {
-          method: "PUT",
-          body: JSON.stringify(body),
-        }
+        )}/webhooks`,
+        { method: "POST", body: JSON.stringify(body) }
       );
+      return mapServerWebhook(res);
     }
   }
 
-  async addPullRequestReviewers(
+  /**
+   * Update a webhook. Fields left out keep their current value, including
+   * the secret.
+   */
+  async updateWebhook(
     workspace: string,
     repoSlug: string,
-    prId: number,
-    reviewers: string[]
-  ) {
+    webhookId: string,
+    input: WebhookInput
+  ): Promise<Webhook> {
     console.log(
-      `[addPullRequestReviewers] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, reviewers=${reviewers.join(
-        ", "
-      )}`
+      `[updateWebhook] workspace=${workspace}, repoSlug=${repoSlug}, webhookId=${webhookId}, fields=${Object.keys(
+        input
+      ).join(", ")}`
     );
     if (this.isCloud) {
-      // For Cloud, we need to update the PR with reviewers
-      const body = {
-        reviewers: reviewers.map((uuid) => ({ uuid })),
+      const path = `/repositories/${encodeURIComponent(
+        workspace
+      )}/${encodeURIComponent(repoSlug)}/hooks/${encodeURIComponent(
+        webhookId
+      )}`;
+      const current = await this.request<any>(path);
+      const body: any = {
+        description: input.name ?? current.description,
+        url: input.url ?? current.url,
+        active: input.active ?? current.active,
+        events: input.events ?? current.events,
       };
-      return this.request(
-        `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+      if (input.secret !== undefined) body.secret = input.secret || null;
+      const res = await this.request<any>(path, {
+        method: "PUT",
+        body: JSON.stringify(body),
+      });
+      return mapCloudWebhook(res);
+    } else {
+      const path = `/projects/${encodeURIComponent(
+        workspace
+      )}/repos/${encodeURIComponent(repoSlug)}/webhooks/${encodeURIComponent(
+        webhookId
+      )}`;
+      // Server replaces the whole webhook, so start from the stored one
+      const current = await this.request<any>(path);
+      const body: any = {
+        name: input.name ?? current.name,
+        url: input.url ?? current.url,
+        active: input.active ?? current.active,
+        events: input.events ?? current.events,
+        configuration: { ...current.configuration },
+      };
+      if (input.secret !== undefined) {
+        if (input.secret) body.configuration.secret = input.secret;
+        else delete body.configuration.secret;
+      }
+      const res = await this.request<any>(path, {
+        method: "PUT",
+        body: JSON.stringify(body),
+      });
+      return mapServerWebhook(res);
+    }
+  }
+
+  async deleteWebhook(workspace: string, repoSlug: string, webhookId: string) {
+    console.log(
+      `[deleteWebhook] workspace=${workspace}, repoSlug=${repoSlug}, webhookId=${webhookId}`
+    );
+    const path = this.isCloud
+      ? `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests/${prId}`,
-        {
-          method: "PUT",
-          body: JSON.stringify(body),
+        )}/hooks/${encodeURIComponent(webhookId)}`
+      : `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+          repoSlug
+        )}/webhooks/${encodeURIComponent(webhookId)}`;
+    await this.request(path, { method: "DELETE" });
+    return { deleted: true, id: webhookId };
+  }
+
+  /**
+   * Ask Server to send a test request to a webhook's URL and report the
+   * response it got. Cloud has no API to trigger webhook deliveries.
+   */
+  async testWebhook(workspace: string, repoSlug: string, webhookId: string) {
+    console.log(
+      `[testWebhook] workspace=${workspace}, repoSlug=${repoSlug}, webhookId=${webhookId}`
+    );
+    if (this.isCloud) {
+      throw new BitbucketError({
+        message: "Testing webhooks is not supported on Bitbucket Cloud",
+        errorType: "CAPABILITY_ERROR",
+        details: { webhookId },
+        suggestion:
+          "Trigger a subscribed event (for example push a commit) and check the webhook's request history in repository settings.",
+        isRetryable: false,
+      });
+    }
+    const repoPath = `/projects/${encodeURIComponent(
+      workspace
+    )}/repos/${encodeURIComponent(repoSlug)}`;
+    const hook = await this.request<any>(
+      `${repoPath}/webhooks/${encodeURIComponent(webhookId)}`
+    );
+    const params = new URLSearchParams({
+      url: hook.url,
+      webhookId: String(hook.id),
+    });
+    return this.request(`${repoPath}/webhooks/test?${params.toString()}`, {
+      method: "POST",
+      body: JSON.stringify({}),
+      // A test delivery has no lasting effect
+      idempotent: true,
+    });
+  }
+
+  /**
+   * Map display names, nicknames, emails or @mentions to the identifier the
+   * backend needs for reviewers. Exact matches win; otherwise a single
+   * partial match is accepted and several are reported as ambiguous.
+   * Results are cached per workspace.
+   */
+  async resolveUsers(
+    workspace: string,
+    identifiers: string[]
+  ): Promise<UserResolution> {
+    console.log(
+      `[resolveUsers] workspace=${workspace}, identifiers=${identifiers.join(
+        ", "
+      )}`
+    );
+    const result: UserResolution = { resolved: [], unresolved: [] };
+    for (const input of identifiers) {
+      const term = input.trim().replace(/^@/, "");
+      const cacheKey = `${workspace}\u0000${term.toLowerCase()}`;
+      const cached = this.userCache.get(cacheKey);
+      if (cached && cached.expires > Date.now()) {
+        result.resolved.push({ input, id: cached.id, user: cached.user });
+        continue;
+      }
+      if (!term) {
+        result.unresolved.push({ input, reason: "Empty identifier" });
+        continue;
+      }
+
+      const { users, reason } = this.isCloud
+        ? await this.findCloudUsers(workspace, term)
+        : await this.findServerUsers(term);
+      if (users.length === 1) {
+        const user = users[0];
+        const id = this.isCloud ? user.id : (user.username ?? user.id);
+        this.userCache.set(cacheKey, {
+          id,
+          user,
+          expires: Date.now() + USER_CACHE_TTL_MS,
+        });
+        result.resolved.push({ input, id, user });
+      } else if (users.length > 1) {
+        result.unresolved.push({
+          input,
+          reason: "Matches several users; use a more specific identifier",
+          candidates: users,
+        });
+      } else {
+        result.unresolved.push({ input, reason: reason ?? "No matching user" });
+      }
+    }
+    return result;
+  }
+
+  private async findCloudUsers(
+    workspace: string,
+    term: string
+  ): Promise<{ users: User[]; reason?: string }> {
+    if (term.includes("@")) {
+      // Cloud hides member emails unless the caller administers the workspace
+      try {
+        const res = await this.paginate(
+          `/workspaces/${encodeURIComponent(
+            workspace
+          )}/members?q=${encodeURIComponent(
+            `user.email IN (${bbqlString(term)})`
+          )}`
+        );
+        return { users: res.values.map((m: any) => mapCloudUser(m.user)) };
+      } catch (error) {
+        if (
+          error instanceof BitbucketError &&
+          (error.statusCode === 400 || error.statusCode === 403)
+        ) {
+          return {
+            users: [],
+            reason:
+              "Email lookup needs workspace admin rights on Bitbucket Cloud; use a name or nickname instead",
+          };
         }
+        throw error;
+      }
+    }
+
+    const members = await this.cloudWorkspaceMembers(workspace);
+    const lower = term.toLowerCase();
+    const exact = members.filter((u) =>
+      [u.uuid, u.account_id, u.nickname, u.display_name].some(
+        (v) => typeof v === "string" && v.toLowerCase() === lower
+      )
+    );
+    if (exact.length > 0) return { users: exact.map(mapCloudUser) };
+    if (/^\{.+\}$/.test(term)) {
+      // A UUID outside the member list can still be a valid reviewer
+      return { users: [{ id: term, displayName: term }] };
+    }
+    return {
+      users: members
+        .filter((u) =>
+          [u.nickname, u.display_name].some(
+            (v) => typeof v === "string" && v.toLowerCase().includes(lower)
+          )
+        )
+        .map(mapCloudUser),
+    };
+  }
+
+  private async cloudWorkspaceMembers(workspace: string): Promise<any[]> {
+    const cached = this.memberCache.get(workspace);
+    if (cached && cached.expires > Date.now()) return cached.members;
+    const res = await this.paginate(
+      `/workspaces/${encodeURIComponent(workspace)}/members`
+    );
+    const members = res.values.map((m: any) => m.user).filter(Boolean);
+    this.memberCache.set(workspace, {
+      members,
+      expires: Date.now() + USER_CACHE_TTL_MS,
+    });
+    return members;
+  }
+
+  private async findServerUsers(
+    term: string
+  ): Promise<{ users: User[]; reason?: string }> {
+    // filter matches user names, display names and emails by prefix
+    const res = await this.paginate(
+      `/users?filter=${encodeURIComponent(term)}`,
+      { limit: 25 }
+    );
+    const lower = term.toLowerCase();
+    const exact = res.values.filter((u: any) =>
+      [u.name, u.slug, u.emailAddress, u.displayName].some(
+        (v) => typeof v === "string" && v.toLowerCase() === lower
+      )
+    );
+    return {
+      users: (exact.length > 0 ? exact : res.values).map(mapServerUser),
+    };
+  }
+
+  async listPullRequestTasks(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    page?: PaginationOptions
+  ): Promise<PaginatedResult<PullRequestTask>> {
+    console.log(
+      `[listPullRequestTasks] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+    );
+    if (this.isCloud) {
+      return mapPage(
+        await this.paginate(
+          `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
+            repoSlug
+          )}/pullrequests/${prId}/tasks`,
+          page
+        ),
+        mapCloudTask
       );
     } else {
-      // For Server, add reviewers individually
-      const promises = reviewers.map((username) =>
-        this.request(
-          `/projects/${encodeURIComponent(
-            workspace
-          )}/repos/${encodeURIComponent(
+      return mapPage(
+        await this.paginate(
+          `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
             repoSlug
-          )}/pull-requests/${prId}/participants`,
-          {
-            method: "POST",
-            body: JSON.stringify({
-              user: { name: username },
-              role: "REVIEWER",
-            }),
-          }
-        )
+          )}/pull-requests/${prId}/blocker-comments`,
+          page
+        ),
+        mapServerTask
       );
-      return Promise.all(promises);
     }
   }
 
-  async listPullRequestComments(
+  /**
+   * Create a task, either standalone or attached to the comment `commentId`.
+   */
+  async createPullRequestTask(
     workspace: string,
     repoSlug: string,
-    prId: number
-  ) {
+    prId: number,
+    text: string,
+    commentId?: number
+  ): Promise<PullRequestTask> {
     console.log(
-      `[listPullRequestComments] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}`
+      `[createPullRequestTask] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, commentId=${
+        commentId ?? "none"
+      }`
     );
     if (this.isCloud) {
-      return this.request(
+      const body: any = { content: { raw: text } };
+      if (commentId !== undefined) body.comment = { id: commentId };
+      const res = await this.request<any>(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests/${prId}/comments`
+        )}/pullrequests/${prId}/tasks`,
+        { method: "POST", body: JSON.stringify(body) }
       );
+      return mapCloudTask(res);
     } else {
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/pull-requests/${prId}/activities`
-      );
+      const prPath = `/projects/${encodeURIComponent(
+        workspace
+      )}/repos/${encodeURIComponent(repoSlug)}/pull-requests/${prId}`;
+      // A task on a comment is a BLOCKER reply to it
+      const res =
+        commentId !== undefined
+          ? await this.request<any>(`${prPath}/comments`, {
+              method: "POST",
+              body: JSON.stringify({
+                text,
+                severity: "BLOCKER",
+                parent: { id: commentId },
+              }),
+            })
+          : await this.request<any>(`${prPath}/blocker-comments`, {
+              method: "POST",
+              body: JSON.stringify({ text }),
+            });
+      return mapServerTask(res);
     }
   }
 
-  async getCommit(workspace: string, repoSlug: string, commitHash: string) {
+  async setPullRequestTaskState(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    taskId: number,
+    state: TaskState
+  ): Promise<PullRequestTask> {
     console.log(
-      `[getCommit] workspace=${workspace}, repoSlug=${repoSlug}, commitHash=${commitHash}`
+      `[setPullRequestTaskState] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, taskId=${taskId}, state=${state}`
     );
     if (this.isCloud) {
-      return this.request(
+      const res = await this.request<any>(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/commit/${encodeURIComponent(commitHash)}`
+        )}/pullrequests/${prId}/tasks/${taskId}`,
+        {
+          method: "PUT",
+          body: JSON.stringify({
+            state: state === "RESOLVED" ? "RESOLVED" : "UNRESOLVED",
+          }),
+        }
       );
+      return mapCloudTask(res);
     } else {
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/commits/${encodeURIComponent(commitHash)}`
-      );
+      const path = `/projects/${encodeURIComponent(
+        workspace
+      )}/repos/${encodeURIComponent(
+        repoSlug
+      )}/pull-requests/${prId}/blocker-comments/${taskId}`;
+      const current = await this.request<any>(path);
+      const res = await this.request<any>(path, {
+        method: "PUT",
+        body: JSON.stringify({ state, version: current.version }),
+      });
+      return mapServerTask(res);
     }
   }
 
-  async getCommitDiff(workspace: string, repoSlug: string, commitHash: string) {
+  async deletePullRequestTask(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    taskId: number
+  ) {
     console.log(
-      `[getCommitDiff] workspace=${workspace}, repoSlug=${repoSlug}, commitHash=${commitHash}`
+      `[deletePullRequestTask] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, taskId=${taskId}`
     );
     if (this.isCloud) {
-      return this.request(
+      await this.request(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/diff/${encodeURIComponent(commitHash)}`
+        )}/pullrequests/${prId}/tasks/${taskId}`,
+        { method: "DELETE" }
       );
     } else {
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/commits/${encodeURIComponent(commitHash)}/diff`
-      );
+      const path = `/projects/${encodeURIComponent(
+        workspace
+      )}/repos/${encodeURIComponent(
+        repoSlug
+      )}/pull-requests/${prId}/blocker-comments/${taskId}`;
+      const current = await this.request<any>(path);
+      await this.request(`${path}?version=${current.version}`, {
+        method: "DELETE",
+      });
     }
+    return { deleted: true, taskId };
   }
 
-  async compareBranches(
+  async editPullRequestComment(
     workspace: string,
     repoSlug: string,
-    source: string,
-    destination: string
-  ) {
+    prId: number,
+    commentId: number,
+    text: string
+  ): Promise<Comment> {
     console.log(
-      `[compareBranches] workspace=${workspace}, repoSlug=${repoSlug}, source=${source}, dest=${destination}`
+      `[editPullRequestComment] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, commentId=${commentId}`
     );
     if (this.isCloud) {
-      // Cloud uses spec format: destination..source
-      return this.request(
+      const res = await this.request<any>(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/diff/${encodeURIComponent(destination)}..${encodeURIComponent(
-          source
-        )}`
+        )}/pullrequests/${prId}/comments/${commentId}`,
+        { method: "PUT", body: JSON.stringify({ content: { raw: text } }) }
       );
+      return mapCloudComment(res);
     } else {
-      // Server uses from/to query params
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/compare/diff?from=${encodeURIComponent(
-          source
-        )}&to=${encodeURIComponent(destination)}`
+      const path = this.serverCommentPath(workspace, repoSlug, prId, commentId);
+      const res = await this.withCommentVersion(path, commentId, (current) =>
+        this.request<any>(path, {
+          method: "PUT",
+          body: JSON.stringify({ text, version: current.version }),
+        })
       );
+      return mapServerComment(res);
     }
   }
 
-  async addInlineCommentAfterReview(
+  async deletePullRequestComment(
     workspace: string,
     repoSlug: string,
     prId: number,
-    filePath: string,
-    line: number,
-    text: string,
-    lineType: "ADDED" | "CONTEXT" | "REMOVED" = "ADDED"
+    commentId: number
   ) {
     console.log(
-      `[addInlineCommentAfterReview] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, file=${filePath}, line=${line}, lineType=${lineType}`
+      `[deletePullRequestComment] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, commentId=${commentId}`
     );
     if (this.isCloud) {
-      const body = {
-        content: { raw: text },
-        inline: { path: filePath, to: line },
-      };
-      return this.request(
+      await this.request(
         `/repositories/${encodeURIComponent(workspace)}/${encodeURIComponent(
           repoSlug
-        )}/pullrequests/${prId}/comments`,
-        {
-          method: "POST",
-          body: JSON.stringify(body),
-        }
+        )}/pullrequests/${prId}/comments/${commentId}`,
+        { method: "DELETE" }
       );
     } else {
-      const body = {
-        text,
-        anchor: {
-          line,
-          lineType,
-          fileType: "TO",
-          path: filePath,
-        },
-      };
-      return this.request(
-        `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
-          repoSlug
-        )}/pull-requests/${prId}/comments`,
-        {
-          method: "POST",
-          body: JSON.stringify(body),
-        }
+      const path = this.serverCommentPath(workspace, repoSlug, prId, commentId);
+      await this.withCommentVersion(path, commentId, (current) =>
+        this.request(`${path}?version=${current.version}`, {
+          method: "DELETE",
+        })
+      );
+    }
+    return { deleted: true, commentId };
+  }
+
+  /**
+   * Resolve or reopen the thread started by a top-level comment.
+   */
+  async setPullRequestCommentResolved(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    commentId: number,
+    resolved: boolean
+  ): Promise<Comment> {
+    console.log(
+      `[setPullRequestCommentResolved] workspace=${workspace}, repoSlug=${repoSlug}, prId=${prId}, commentId=${commentId}, resolved=${resolved}`
+    );
+    if (this.isCloud) {
+      const path = `/repositories/${encodeURIComponent(
+        workspace
+      )}/${encodeURIComponent(repoSlug)}/pullrequests/${prId}/comments/${commentId}`;
+      await this.request(`${path}/resolve`, {
+        method: resolved ? "POST" : "DELETE",
+        // Resolving twice is harmless, so the POST may be retried
+        idempotent: true,
+      });
+      return mapCloudComment(await this.request<any>(path));
+    } else {
+      const path = this.serverCommentPath(workspace, repoSlug, prId, commentId);
+      const res = await this.withCommentVersion(path, commentId, (current) =>
+        this.request<any>(path, {
+          method: "PUT",
+          body: JSON.stringify({
+            state: resolved ? "RESOLVED" : "OPEN",
+            version: current.version,
+          }),
+        })
       );
+      return mapServerComment(res);
     }
   }
+
+  private serverCommentPath(
+    workspace: string,
+    repoSlug: string,
+    prId: number,
+    commentId: number
+  ): string {
+    return `/projects/${encodeURIComponent(workspace)}/repos/${encodeURIComponent(
+      repoSlug
+    )}/pull-requests/${prId}/comments/${commentId}`;
+  }
+
+  private withCommentVersion<T>(
+    path: string,
+    commentId: number,
+    call: (current: any) => Promise<T>
+  ): Promise<T> {
+    return this.withServerVersion(
+      path,
+      {
+        message: "Comment was modified while this change was applied",
+        details: { commentId },
+        suggestion:
+          "Someone else edited the comment. List the comments again, check the changes, then retry.",
+      },
+      call
+    );
+  }
 }
@@ -0,0 +1,120 @@
+// Line attribution for backends without a blame API. Walks a file's
+// revisions newest first and credits each line to the newest revision whose
+// predecessor does not contain it.
+
+// Above this many cells the LCS table gets too large; fall back to greedy
+// in-order matching, which can only over-attribute lines to newer commits.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * For each line of `newer`, the index of the same line in `older`, or
+ * undefined when the line was added or changed in `newer`.
+ */
+export function matchLines(
+  newer: string[],
+  older: string[]
+): Array<number | undefined> {
+  const result: Array<number | undefined> = new Array(newer.length);
+  let start = 0;
+  while (
+    start < newer.length &&
+    start < older.length &&
+    newer[start] === older[start]
+  ) {
+    result[start] = start;
+    start++;
+  }
+  let endNew = newer.length;
+  let endOld = older.length;
+  while (
+    endNew > start &&
+    endOld > start &&
+    newer[endNew - 1] === older[endOld - 1]
+  ) {
+    result[--endNew] = --endOld;
+  }
+
+  const n = endNew - start;
+  const m = endOld - start;
+  if (n === 0 || m === 0) return result;
+
+  if (n * m > MAX_LCS_CELLS) {
+    let from = start;
+    for (let i = start; i < endNew; i++) {
+      const j = older.indexOf(newer[i], from);
+      if (j !== -1 && j < endOld) {
+        result[i] = j;
+        from = j + 1;
+      }
+    }
+    return result;
+  }
+
+  // lengths[i * (m + 1) + j] = LCS of newer[start + i..] and older[start + j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        newer[start + i] === older[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (newer[start + i] === older[start + j]) {
+      result[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Attribute the lines of revision 0 to revisions `0..count - 1`, loading
+ * older revisions only while some lines are still unattributed. Lines that
+ * survive every loaded revision are credited to the oldest one loaded and
+ * counted in `unresolved`, since they may be older still.
+ */
+export async function blameFromHistory(
+  count: number,
+  load: (index: number) => Promise<string[]>
+): Promise<{
+  lines: string[];
+  owners: number[];
+  loaded: number;
+  unresolved: number;
+}> {
+  const lines = await load(0);
+  const owners: number[] = new Array(lines.length).fill(-1);
+  let positions: Array<number | undefined> = lines.map((_, i) => i);
+  let newer = lines;
+  let loaded = 1;
+
+  while (loaded < count && positions.some((p) => p !== undefined)) {
+    const older = await load(loaded);
+    const matches = matchLines(newer, older);
+    positions = positions.map((pos, line) => {
+      if (pos === undefined) return undefined;
+      const olderPos = matches[pos];
+      if (olderPos === undefined) owners[line] = loaded - 1;
+      return olderPos;
+    });
+    newer = older;
+    loaded++;
+  }
+
+  return {
+    lines,
+    owners: owners.map((o) => (o === -1 ? loaded - 1 : o)),
+    loaded,
+    unresolved: owners.filter((o) => o === -1).length,
+  };
+}
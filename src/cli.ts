@@ -8,7 +8,15 @@ import {
   CompatibilityCallToolResultSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { loadConfig } from "./config.js";
-import { BitbucketClient, BitbucketError } from "./bitbucket.js";
+import {
+  BitbucketClient,
+  BitbucketError,
+  DiffOptions,
+  IssueInput,
+  PaginationOptions,
+  RepositoryInput,
+} from "./bitbucket.js";
+import { buildCommentTree, DiffFormat, rawPayload } from "./models.js";
 import {
   getCurrentBranch,
   findRepoRoot,
@@ -23,6 +31,8 @@ async function main() {
     token: config.ATLASSIAN_API_TOKEN,
     baseUrl: config.baseUrl,
     authType: config.authType,
+    retry: { maxAttempts: config.retryMaxAttempts },
+    diffIgnore: config.diffIgnore,
   });
 
   const getDefaultWorkspace = (args: any) => {
@@ -36,6 +46,22 @@ async function main() {
     return r;
   };
 
+  // Tools return at most this many items per call unless `limit` is given
+  const DEFAULT_TOOL_PAGE_LIMIT = 100;
+  const getPageOptions = (args: any): PaginationOptions => {
+    const limit =
+      args?.limit !== undefined ? Number(args.limit) : DEFAULT_TOOL_PAGE_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("limit must be a positive integer");
+    }
+    const cursor = args?.cursor as string | undefined;
+    return cursor ? { limit, cursor } : { limit };
+  };
+  const paginationProperties = {
+    limit: { type: "number" },
+    cursor: { type: "string" },
+  };
+
   type ToolHandler = (args: any) => Promise<{
     content: Array<{ type: "text"; text: string }>;
     isError?: boolean;
@@ -55,6 +81,49 @@ async function main() {
   const jsonOut = (data: unknown) => [
     { type: "text" as const, text: JSON.stringify(data, null, 2) },
   ];
+  // Normalized models by default; raw=true swaps in the backend payloads
+  const modelOut = (data: unknown, args: any) =>
+    jsonOut(args?.raw ? rawPayload(data) : data);
+
+  // Get current branch as default source if not provided
+  const getSourceBranch = (args: any) => {
+    const sourceBranch = args?.sourceBranch as string;
+    if (sourceBranch) return sourceBranch;
+    try {
+      const repoRoot = findRepoRoot();
+      return getCurrentBranch(repoRoot);
+    } catch (e) {
+      throw new Error(
+        "sourceBranch is required or must be in a git repository"
+      );
+    }
+  };
+  // Use configured default destination branch if not provided
+  const getDestBranch = (args: any) =>
+    (args?.destBranch as string) || config.defaultDestinationBranch;
+
+  // Reviewers may be names, nicknames, emails or @mentions. Unresolved ones
+  // are reported in an extra content block rather than failing the call.
+  const resolveReviewers = async (workspace: string, reviewers: unknown) => {
+    if (reviewers === undefined) return { ids: [], unresolvedOut: [] };
+    if (
+      !Array.isArray(reviewers) ||
+      reviewers.some((v) => typeof v !== "string")
+    ) {
+      throw new Error("reviewers must be an array of strings");
+    }
+    const { resolved, unresolved } = await client.resolveUsers(
+      workspace,
+      reviewers
+    );
+    return {
+      ids: [...new Set(resolved.map((u) => u.id))],
+      unresolvedOut:
+        unresolved.length > 0
+          ? jsonOut({ unresolvedReviewers: unresolved })
+          : [],
+    };
+  };
 
   addTool({
     name: "repo_info",
@@ -79,7 +148,7 @@ async function main() {
   addTool({
     name: "pr_list",
     description:
-      "List pull requests for the repository. Requires workspace and repoSlug parameters. Optional state=OPEN|MERGED|DECLINED|SUPERSEDED (default OPEN).",
+      "List pull requests for the repository. Requires workspace and repoSlug parameters. Optional state=OPEN|MERGED|DECLINED|SUPERSEDED (default OPEN). Optional limit (default 100) and cursor (nextCursor from a previous call) for paging. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
       required: ["workspace", "repoSlug"],
@@ -90,21 +159,23 @@ async function main() {
           type: "string",
           enum: ["OPEN", "MERGED", "DECLINED", "SUPERSEDED"],
         },
+        ...paginationProperties,
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
       const s = ((args?.state as string) || "OPEN") as any;
-      const data = await client.listPullRequests(w, r, s);
-      return { content: jsonOut(data) };
+      const data = await client.listPullRequests(w, r, s, getPageOptions(args));
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
     name: "pr_create",
     description:
-      'Create a pull request. Requires workspace and repoSlug parameters. Provide title. sourceBranch and destBranch are optional - sourceBranch defaults to current branch, destBranch defaults to configured default (usually "main").',
+      'Create a pull request. Requires workspace and repoSlug parameters. Provide title. sourceBranch and destBranch are optional - sourceBranch defaults to current branch, destBranch defaults to configured default (usually "main"). Optional reviewers accepts display names, nicknames, emails or @mentions; any that cannot be resolved are listed as unresolvedReviewers. Repository default reviewers are added unless defaultReviewers=false. Optional raw=true returns the unnormalized Bitbucket response.',
     inputSchema: {
       type: "object",
       required: ["workspace", "repoSlug", "title"],
@@ -115,63 +186,85 @@ async function main() {
         sourceBranch: { type: "string" },
         destBranch: { type: "string" },
         description: { type: "string" },
+        reviewers: { type: "array", items: { type: "string" } },
+        defaultReviewers: { type: "boolean" },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
 
-      // Get current branch as default source if not provided
-      let sourceBranch = args!.sourceBranch as string;
-      if (!sourceBranch) {
-        try {
-          const repoRoot = findRepoRoot();
-          sourceBranch = getCurrentBranch(repoRoot);
-        } catch (e) {
-          throw new Error(
-            "sourceBranch is required or must be in a git repository"
-          );
-        }
-      }
-
-      // Use configured default destination branch if not provided
-      const destBranch =
-        (args!.destBranch as string) || config.defaultDestinationBranch;
+      const sourceBranch = getSourceBranch(args);
+      const destBranch = getDestBranch(args);
 
+      const { ids, unresolvedOut } = await resolveReviewers(w, args?.reviewers);
       const data = await client.createPullRequest(w, r, {
         title: args!.title as string,
         sourceBranch,
         destBranch,
         description: (args!.description as string) || "",
+        reviewers: ids,
+        defaultReviewers: args?.defaultReviewers !== false,
       });
-      return { content: jsonOut(data) };
+      return { content: [...modelOut(data, args), ...unresolvedOut] };
+    },
+  });
+
+  addTool({
+    name: "pr_default_reviewers",
+    description:
+      "Preview the default reviewers pr_create would add for a pull request. Requires workspace and repoSlug parameters. sourceBranch defaults to the current branch and destBranch to the configured default. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        sourceBranch: { type: "string" },
+        destBranch: { type: "string" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getDefaultReviewers(
+        w,
+        r,
+        getSourceBranch(args),
+        getDestBranch(args)
+      );
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
     name: "branches_list",
     description:
-      "List branches in the repository. Requires workspace and repoSlug parameters.",
+      "List branches in the repository. Requires workspace and repoSlug parameters. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
       required: ["workspace", "repoSlug"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.listBranches(w, r);
-      return { content: jsonOut(data) };
+      const data = await client.listBranches(w, r, getPageOptions(args));
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
     name: "branch_create",
     description:
-      "Create a branch from a target commit hash. Requires workspace, repoSlug, name, and targetHash parameters.",
+      "Create a branch from a target commit hash. Requires workspace, repoSlug, name, and targetHash parameters. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
       required: ["workspace", "repoSlug", "name", "targetHash"],
@@ -180,6 +273,7 @@ async function main() {
         repoSlug: { type: "string" },
         name: { type: "string" },
         targetHash: { type: "string" },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
@@ -191,288 +285,324 @@ async function main() {
         args!.name as string,
         args!.targetHash as string
       );
-      return { content: jsonOut(data) };
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
-    name: "workspaces_list",
-    description: "List all accessible workspaces",
-    inputSchema: { type: "object", properties: {} },
+    name: "branch_delete",
+    description:
+      "Delete a branch. Requires workspace, repoSlug, and name parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "name"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        name: { type: "string" },
+      },
+    },
     handler: async (args: any) => {
-      const data = await client.listWorkspaces();
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.deleteBranch(w, r, args!.name as string);
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "repos_list",
-    description: "List repositories in a workspace",
+    name: "branch_restrictions_list",
+    description:
+      "List branch restrictions (Cloud branch-restrictions, Server branch permissions). Requires workspace and repoSlug parameters. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
-      required: ["workspace"],
-      properties: { workspace: { type: "string" } },
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
     },
     handler: async (args: any) => {
-      const data = await client.listRepositories(args!.workspace as string);
-      return { content: jsonOut(data) };
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listBranchRestrictions(
+        w,
+        r,
+        getPageOptions(args)
+      );
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
-    name: "pr_get",
+    name: "branch_restriction_create",
     description:
-      "Get details of a specific pull request. Requires workspace, repoSlug, and prId parameters.",
+      "Create a branch restriction. Requires workspace, repoSlug, kind, and pattern (branch name or glob) parameters. Cloud kinds include require_approvals_to_merge (with value = number of approvals), force (blocks force-push), delete, push and restrict_merges (limit to users/groups). Server kinds are read-only, no-deletes, fast-forward-only and pull-request-only. Optional users (Cloud UUIDs or Server user names) and groups are exempt from the restriction.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId"],
+      required: ["workspace", "repoSlug", "kind", "pattern"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        prId: { type: "number" },
+        kind: { type: "string" },
+        pattern: { type: "string" },
+        value: { type: "number" },
+        users: { type: "array", items: { type: "string" } },
+        groups: { type: "array", items: { type: "string" } },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.getPullRequest(w, r, args!.prId as number);
-      return { content: jsonOut(data) };
+      const data = await client.createBranchRestriction(w, r, {
+        kind: args!.kind as string,
+        pattern: args!.pattern as string,
+        value: args?.value as number | undefined,
+        users: args?.users as string[] | undefined,
+        groups: args?.groups as string[] | undefined,
+      });
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
-    name: "pr_diff",
+    name: "branch_restriction_delete",
     description:
-      "Get diff of a pull request. Requires workspace, repoSlug, and prId parameters.",
+      "Delete a branch restriction. Requires workspace, repoSlug, and id parameters.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId"],
+      required: ["workspace", "repoSlug", "id"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        prId: { type: "number" },
+        id: { type: "number" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.getPullRequestDiff(w, r, args!.prId as number);
+      const data = await client.deleteBranchRestriction(
+        w,
+        r,
+        args!.id as number
+      );
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "pr_changes",
+    name: "tags_list",
     description:
-      "Get file changes in a pull request. Requires workspace, repoSlug, and prId parameters.",
+      "List tags in the repository, newest first. Requires workspace and repoSlug parameters. Optional filter (substring of the tag name), limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId"],
+      required: ["workspace", "repoSlug"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        prId: { type: "number" },
+        filter: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.getPullRequestChanges(
+      const data = await client.listTags(
         w,
         r,
-        args!.prId as number
+        args?.filter as string | undefined,
+        getPageOptions(args)
       );
-      return { content: jsonOut(data) };
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
-    name: "pr_comment_add",
+    name: "tag_create",
     description:
-      "Add a comment to a pull request. Requires workspace, repoSlug, prId, and text parameters.",
+      "Create a tag. Requires workspace, repoSlug, and name parameters plus exactly one of hash (commit to tag) or branch (tags the branch head). Optional message creates an annotated tag.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId", "text"],
+      required: ["workspace", "repoSlug", "name"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        prId: { type: "number" },
-        text: { type: "string" },
+        name: { type: "string" },
+        hash: { type: "string" },
+        branch: { type: "string" },
+        message: { type: "string" },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.addPullRequestComment(
-        w,
-        r,
-        args!.prId as number,
-        args!.text as string
-      );
-      return { content: jsonOut(data) };
+      const data = await client.createTag(w, r, {
+        name: args!.name as string,
+        hash: args?.hash as string | undefined,
+        branch: args?.branch as string | undefined,
+        message: args?.message as string | undefined,
+      });
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
-    name: "file_content",
+    name: "tag_delete",
     description:
-      "Get content of a file at a specific commit. Requires workspace, repoSlug, filePath, and commitHash parameters.",
+      "Delete a tag. Requires workspace, repoSlug, and name parameters.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "filePath", "commitHash"],
+      required: ["workspace", "repoSlug", "name"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        filePath: { type: "string" },
-        commitHash: { type: "string" },
+        name: { type: "string" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.getFileContent(
-        w,
-        r,
-        args!.filePath as string,
-        args!.commitHash as string
-      );
+      const data = await client.deleteTag(w, r, args!.name as string);
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "connection_test",
-    description: "Test connection to Bitbucket API",
-    inputSchema: { type: "object", properties: {} },
+    name: "workspaces_list",
+    description:
+      "List all accessible workspaces. Optional limit (default 100) and cursor for paging.",
+    inputSchema: { type: "object", properties: { ...paginationProperties } },
     handler: async (args: any) => {
-      const result = await client.testConnection();
-      if (result.success) {
-        return {
-          content: [{ type: "text", text: "Connection successful" }],
-        };
-      } else {
-        const errorInfo = result.error
-          ? {
-              error: result.error.message,
-              errorType: result.error.errorType,
-              statusCode: result.error.statusCode,
-              suggestion: result.error.suggestion,
-              isRetryable: result.error.isRetryable,
-            }
-          : { error: "Connection failed" };
-        return {
-          content: [{ type: "text", text: JSON.stringify(errorInfo, null, 2) }],
-          isError: true,
-        };
-      }
+      const data = await client.listWorkspaces(getPageOptions(args));
+      return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "commits_list",
+    name: "repos_list",
     description:
-      "List commits in the repository. Requires workspace and repoSlug parameters. Optional spec (branch or commit range).",
+      "List repositories in a workspace. Optional limit (default 100) and cursor for paging.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug"],
-      properties: {
-        workspace: { type: "string" },
-        repoSlug: { type: "string" },
-        spec: { type: "string" },
-      },
+      required: ["workspace"],
+      properties: { workspace: { type: "string" }, ...paginationProperties },
     },
     handler: async (args: any) => {
-      const w = getDefaultWorkspace(args);
-      const r = getDefaultRepoSlug(args);
-      const spec = args?.spec as string | undefined;
-      const data = await client.listCommits(w, r, spec);
+      const data = await client.listRepositories(
+        args!.workspace as string,
+        getPageOptions(args)
+      );
       return { content: jsonOut(data) };
     },
   });
 
+  const repositoryProperties = {
+    name: { type: "string" },
+    description: { type: "string" },
+    isPrivate: { type: "boolean" },
+    defaultBranch: { type: "string" },
+    language: { type: "string" },
+    project: { type: "string" },
+  };
+  const getRepositoryInput = (args: any): RepositoryInput => ({
+    name: args?.name as string | undefined,
+    description: args?.description as string | undefined,
+    isPrivate: args?.isPrivate as boolean | undefined,
+    defaultBranch: args?.defaultBranch as string | undefined,
+    language: args?.language as string | undefined,
+    project: args?.project as string | undefined,
+  });
+
   addTool({
-    name: "pr_approve",
+    name: "repo_create",
     description:
-      "Approve a pull request. Requires workspace, repoSlug, and prId parameters.",
+      "Create a repository. Requires workspace (Server: project key) and repoSlug parameters. Optional: name (defaults to repoSlug), description, isPrivate (default true), defaultBranch, language (Cloud only), project (Cloud project key; defaults to the workspace's default project).",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId"],
+      required: ["workspace", "repoSlug"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        prId: { type: "number" },
+        ...repositoryProperties,
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.approvePullRequest(w, r, args!.prId as number);
+      const data = await client.createRepository(
+        w,
+        r,
+        getRepositoryInput(args)
+      );
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "pr_decline",
+    name: "repo_fork",
     description:
-      "Decline/reject a pull request. Requires workspace, repoSlug, and prId parameters.",
+      "Fork a repository. Requires workspace and repoSlug of the source repository. Optional targetWorkspace (Server: project key; defaults to the source workspace on Cloud and your personal project on Server), name, and on Cloud project, isPrivate and description.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId"],
+      required: ["workspace", "repoSlug"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        prId: { type: "number" },
+        targetWorkspace: { type: "string" },
+        name: { type: "string" },
+        project: { type: "string" },
+        isPrivate: { type: "boolean" },
+        description: { type: "string" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.declinePullRequest(w, r, args!.prId as number);
+      const data = await client.forkRepository(w, r, {
+        workspace: args?.targetWorkspace as string | undefined,
+        name: args?.name as string | undefined,
+        project: args?.project as string | undefined,
+        isPrivate: args?.isPrivate as boolean | undefined,
+        description: args?.description as string | undefined,
+      });
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "pr_merge",
+    name: "repo_update",
     description:
-      "Merge a pull request. Requires workspace, repoSlug, and prId parameters. Optional: closeSourceBranch (boolean), mergeStrategy (merge_commit|squash|fast_forward), message (string).",
+      "Update repository settings. Requires workspace and repoSlug parameters. Pass any of name, description, isPrivate, defaultBranch (must already exist), language (Cloud only) or project (Cloud only, moves the repository); other settings keep their current value.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId"],
+      required: ["workspace", "repoSlug"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        prId: { type: "number" },
-        closeSourceBranch: { type: "boolean" },
-        mergeStrategy: {
-          type: "string",
-          enum: ["merge_commit", "squash", "fast_forward"],
-        },
-        message: { type: "string" },
+        ...repositoryProperties,
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const options: any = {};
-      if (args?.closeSourceBranch !== undefined)
-        options.closeSourceBranch = args.closeSourceBranch;
-      if (args?.mergeStrategy) options.mergeStrategy = args.mergeStrategy;
-      if (args?.message) options.message = args.message;
-      const data = await client.mergePullRequest(
+      const data = await client.updateRepository(
         w,
         r,
-        args!.prId as number,
-        options
+        getRepositoryInput(args)
       );
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "pr_update",
+    name: "pr_get",
     description:
-      "Update pull request title and/or description. Requires workspace, repoSlug, and prId parameters. Optional: title, description.",
+      "Get details of a specific pull request, including openTaskCount (unresolved tasks block merging). Requires workspace, repoSlug, and prId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
       required: ["workspace", "repoSlug", "prId"],
@@ -480,61 +610,67 @@ async function main() {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
         prId: { type: "number" },
-        title: { type: "string" },
-        description: { type: "string" },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const updates: any = {};
-      if (args?.title) updates.title = args.title;
-      if (args?.description) updates.description = args.description;
-      const data = await client.updatePullRequest(
-        w,
-        r,
-        args!.prId as number,
-        updates
-      );
-      return { content: jsonOut(data) };
+      const data = await client.getPullRequest(w, r, args!.prId as number);
+      return { content: modelOut(data, args) };
     },
   });
 
+  // Shared by the diff tools
+  const diffProperties = {
+    format: { type: "string", enum: ["unified", "structured", "stat"] },
+    include: { type: "array", items: { type: "string" } },
+    exclude: { type: "array", items: { type: "string" } },
+    includeIgnored: { type: "boolean" },
+    maxBytes: { type: "number", minimum: 1 },
+    cursor: { type: "string" },
+  };
+  const diffHelp =
+    'Optional format: unified (default, git diff text), structured (files with hunks and lines, each line with type and old/new line numbers) or stat (per-file addition and deletion counts). Optional include/exclude path globs (e.g. "src/**", "*.test.ts"). Lockfiles, generated and binary files are skipped and listed in skipped unless includeIgnored=true. Optional maxBytes returns whole files up to that size, splitting a larger file at hunk and line boundaries (truncatedPath names it); pass nextCursor back as cursor, with the same filters, for the rest.';
+  const getDiffOptions = (args: any): DiffOptions => ({
+    format: args?.format as DiffFormat | undefined,
+    include: args?.include as string[] | undefined,
+    exclude: args?.exclude as string[] | undefined,
+    includeIgnored: args?.includeIgnored as boolean | undefined,
+    maxBytes: args?.maxBytes as number | undefined,
+    cursor: args?.cursor as string | undefined,
+  });
+
   addTool({
-    name: "pr_reviewers_add",
-    description:
-      "Add reviewers to a pull request. Requires workspace, repoSlug, prId, and reviewers (array of user UUIDs for Cloud or usernames for Server).",
+    name: "pr_diff",
+    description: `Get diff of a pull request. Requires workspace, repoSlug, and prId parameters. ${diffHelp}`,
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId", "reviewers"],
+      required: ["workspace", "repoSlug", "prId"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
         prId: { type: "number" },
-        reviewers: { type: "array", items: { type: "string" } },
+        ...diffProperties,
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const reviewers = args!.reviewers as string[];
-      if (!Array.isArray(reviewers) || reviewers.length === 0) {
-        throw new Error("reviewers must be a non-empty array of strings");
-      }
-      const data = await client.addPullRequestReviewers(
+      const data = await client.getPullRequestDiff(
         w,
         r,
         args!.prId as number,
-        reviewers
+        getDiffOptions(args)
       );
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "pr_comments_list",
+    name: "pr_changes",
     description:
-      "List all comments on a pull request. Requires workspace, repoSlug, and prId parameters.",
+      "Get file changes in a pull request. Requires workspace, repoSlug, and prId parameters.",
     inputSchema: {
       type: "object",
       required: ["workspace", "repoSlug", "prId"],
@@ -547,7 +683,7 @@ async function main() {
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.listPullRequestComments(
+      const data = await client.getPullRequestChanges(
         w,
         r,
         args!.prId as number
@@ -557,102 +693,1709 @@ async function main() {
   });
 
   addTool({
-    name: "commit_get",
+    name: "pr_comment_add",
     description:
-      "Get details of a specific commit. Requires workspace, repoSlug, and commitHash parameters.",
+      "Add a comment to a pull request. Requires workspace, repoSlug, prId, and text parameters. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "commitHash"],
+      required: ["workspace", "repoSlug", "prId", "text"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        commitHash: { type: "string" },
+        prId: { type: "number" },
+        text: { type: "string" },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.getCommit(w, r, args!.commitHash as string);
-      return { content: jsonOut(data) };
+      const data = await client.addPullRequestComment(
+        w,
+        r,
+        args!.prId as number,
+        args!.text as string
+      );
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
-    name: "commit_diff",
+    name: "pr_comment_reply",
     description:
-      "Get diff for a specific commit. Requires workspace, repoSlug, and commitHash parameters.",
+      "Reply to a pull request comment in its thread. Requires workspace, repoSlug, prId, commentId (the comment being answered), and text. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "commitHash"],
+      required: ["workspace", "repoSlug", "prId", "commentId", "text"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        commitHash: { type: "string" },
+        prId: { type: "number" },
+        commentId: { type: "number" },
+        text: { type: "string" },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.getCommitDiff(w, r, args!.commitHash as string);
-      return { content: jsonOut(data) };
+      const data = await client.addPullRequestComment(
+        w,
+        r,
+        args!.prId as number,
+        args!.text as string,
+        args!.commentId as number
+      );
+      return { content: modelOut(data, args) };
     },
   });
 
   addTool({
-    name: "branch_compare",
+    name: "pr_comment_edit",
     description:
-      "Compare two branches to see differences. Requires workspace, repoSlug, source (branch name), and destination (branch name) parameters.",
+      "Replace the text of a pull request comment. Requires workspace, repoSlug, prId, commentId, and text. Optional raw=true returns the unnormalized Bitbucket response.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "source", "destination"],
+      required: ["workspace", "repoSlug", "prId", "commentId", "text"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
-        source: { type: "string" },
-        destination: { type: "string" },
+        prId: { type: "number" },
+        commentId: { type: "number" },
+        text: { type: "string" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.editPullRequestComment(
+        w,
+        r,
+        args!.prId as number,
+        args!.commentId as number,
+        args!.text as string
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_comment_delete",
+    description:
+      "Delete a pull request comment. Requires workspace, repoSlug, prId, and commentId parameters. Server cannot delete comments that have replies.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "commentId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        commentId: { type: "number" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.deletePullRequestComment(
+        w,
+        r,
+        args!.prId as number,
+        args!.commentId as number
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pr_comment_resolve",
+    description:
+      "Resolve a pull request comment thread. Requires workspace, repoSlug, prId, and commentId (the thread's top-level comment). Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "commentId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        commentId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.setPullRequestCommentResolved(
+        w,
+        r,
+        args!.prId as number,
+        args!.commentId as number,
+        true
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_comment_reopen",
+    description:
+      "Reopen a resolved pull request comment thread. Requires workspace, repoSlug, prId, and commentId (the thread's top-level comment). Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "commentId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        commentId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.setPullRequestCommentResolved(
+        w,
+        r,
+        args!.prId as number,
+        args!.commentId as number,
+        false
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "file_content",
+    description:
+      "Get content of a file at a specific commit. Requires workspace, repoSlug, filePath, and commitHash parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "filePath", "commitHash"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        filePath: { type: "string" },
+        commitHash: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getFileContent(
+        w,
+        r,
+        args!.filePath as string,
+        args!.commitHash as string
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "file_history",
+    description:
+      "List the commits that modified a file, newest first, following renames. Requires workspace, repoSlug, filePath, and ref (branch, tag or commit hash) parameters. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "filePath", "ref"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        filePath: { type: "string" },
+        ref: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getFileHistory(
+        w,
+        r,
+        args!.filePath as string,
+        args!.ref as string,
+        getPageOptions(args)
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "file_blame",
+    description:
+      "Show who last changed each line of a file: commit hash, author and date per line. Requires workspace, repoSlug, filePath, and ref parameters. Optional fromLine and toLine (1-based, inclusive) to limit the output. On Cloud, lines are attributed by comparing up to maxRevisions (default 25) revisions from the file history; approximate=true means older history was not examined.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "filePath", "ref"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        filePath: { type: "string" },
+        ref: { type: "string" },
+        fromLine: { type: "number", minimum: 1 },
+        toLine: { type: "number", minimum: 1 },
+        maxRevisions: { type: "number", minimum: 1, maximum: 100 },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getFileBlame(
+        w,
+        r,
+        args!.filePath as string,
+        args!.ref as string,
+        args?.maxRevisions as number | undefined
+      );
+      const from = (args?.fromLine as number) || 1;
+      const to = (args?.toLine as number) || Infinity;
+      return {
+        content: jsonOut({
+          ...data,
+          lines: data.lines.filter((l) => l.line >= from && l.line <= to),
+        }),
+      };
+    },
+  });
+
+  addTool({
+    name: "dir_list",
+    description:
+      'List files and directories at a ref (branch, tag or commit hash). Requires workspace, repoSlug, and ref. Optional path (default repository root), maxDepth (default 1) to descend into subdirectories, glob to filter entries (e.g. "*.ts" or "src/**/*.test.ts"), and limit (default 500). Entries include path, type (file, directory, submodule, link), size and depth; truncated=true means limit was reached.',
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "ref"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        ref: { type: "string" },
+        path: { type: "string" },
+        maxDepth: { type: "number", minimum: 1, maximum: 10 },
+        glob: { type: "string" },
+        limit: { type: "number", minimum: 1, maximum: 5000 },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listDirectory(w, r, {
+        ref: args!.ref as string,
+        path: args?.path as string | undefined,
+        maxDepth: args?.maxDepth as number | undefined,
+        glob: args?.glob as string | undefined,
+        limit: args?.limit as number | undefined,
+      });
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "code_search",
+    description:
+      'Search code across a workspace (Cloud) or project (Server). Requires workspace and query (e.g. "legacyAuth(" or "legacyAuth ext:ts"). Optional repoSlug restricts the search to one repository. Results include repository, path, match count and matching lines with line numbers. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.',
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "query"],
+      properties: {
+        workspace: { type: "string" },
+        query: { type: "string" },
+        repoSlug: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const query = args?.query as string;
+      if (!query) throw new Error("query parameter is required");
+      const data = await client.searchCode(
+        w,
+        query,
+        args?.repoSlug as string | undefined,
+        getPageOptions(args)
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "file_commit",
+    description:
+      'Create, update or delete files on a branch in one commit. Requires workspace, repoSlug, branch, message, and files (array of {path, content} or {path, delete: true}). Optional sourceBranch creates branch from it; optional author ("Name <email>", Cloud only). Server commits each file separately and cannot delete files.',
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "branch", "message", "files"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        branch: { type: "string" },
+        message: { type: "string" },
+        files: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["path"],
+            properties: {
+              path: { type: "string" },
+              content: { type: "string" },
+              delete: { type: "boolean" },
+            },
+          },
+        },
+        author: { type: "string" },
+        sourceBranch: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const files = args!.files;
+      if (!Array.isArray(files) || files.length === 0) {
+        throw new Error("files must be a non-empty array");
+      }
+      const data = await client.commitFiles(w, r, {
+        branch: args!.branch as string,
+        message: args!.message as string,
+        files,
+        author: args?.author as string | undefined,
+        sourceBranch: args?.sourceBranch as string | undefined,
+      });
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "connection_test",
+    description: "Test connection to Bitbucket API",
+    inputSchema: { type: "object", properties: {} },
+    handler: async (args: any) => {
+      const result = await client.testConnection();
+      if (result.success) {
+        return {
+          content: [{ type: "text", text: "Connection successful" }],
+        };
+      } else {
+        const errorInfo = result.error
+          ? {
+              error: result.error.message,
+              errorType: result.error.errorType,
+              statusCode: result.error.statusCode,
+              suggestion: result.error.suggestion,
+              isRetryable: result.error.isRetryable,
+            }
+          : { error: "Connection failed" };
+        return {
+          content: [{ type: "text", text: JSON.stringify(errorInfo, null, 2) }],
+          isError: true,
+        };
+      }
+    },
+  });
+
+  addTool({
+    name: "commits_list",
+    description:
+      "List commits in the repository. Requires workspace and repoSlug parameters. Optional spec (branch or commit range). Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        spec: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const spec = args?.spec as string | undefined;
+      const data = await client.listCommits(w, r, spec, getPageOptions(args));
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_approve",
+    description:
+      "Approve a pull request. Requires workspace, repoSlug, and prId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.approvePullRequest(w, r, args!.prId as number);
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_unapprove",
+    description:
+      "Withdraw your approval or change request on a pull request. Requires workspace, repoSlug, and prId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.setPullRequestReviewStatus(
+        w,
+        r,
+        args!.prId as number,
+        "UNAPPROVED"
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_request_changes",
+    description:
+      "Request changes on a pull request, blocking it until the request is withdrawn (Cloud request changes, Server NEEDS_WORK). Requires workspace, repoSlug, and prId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.setPullRequestReviewStatus(
+        w,
+        r,
+        args!.prId as number,
+        "NEEDS_WORK"
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_participants",
+    description:
+      "List reviewers and other participants of a pull request with their role and review status (APPROVED, NEEDS_WORK or UNAPPROVED). Requires workspace, repoSlug, and prId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listPullRequestParticipants(
+        w,
+        r,
+        args!.prId as number
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_decline",
+    description:
+      "Decline/reject a pull request. Requires workspace, repoSlug, and prId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.declinePullRequest(w, r, args!.prId as number);
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_merge",
+    description:
+      "Merge a pull request. Requires workspace, repoSlug, and prId parameters. Optional: closeSourceBranch (boolean), mergeStrategy (merge_commit|squash|fast_forward), message (string). Optional requireReady=true runs pr_merge_check first and refuses to merge when it reports vetoes. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        closeSourceBranch: { type: "boolean" },
+        mergeStrategy: {
+          type: "string",
+          enum: ["merge_commit", "squash", "fast_forward"],
+        },
+        message: { type: "string" },
+        requireReady: { type: "boolean" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      if (args?.requireReady) {
+        const check = await client.checkPullRequestMerge(
+          w,
+          r,
+          args!.prId as number
+        );
+        if (!check.canMerge) {
+          throw new BitbucketError({
+            message: "Pull request is not ready to merge",
+            errorType: "MERGE_NOT_READY",
+            details: check,
+            suggestion:
+              "Resolve the listed vetoes, then check again with pr_merge_check.",
+            isRetryable: false,
+          });
+        }
+      }
+      const options: any = {};
+      if (args?.closeSourceBranch !== undefined)
+        options.closeSourceBranch = args.closeSourceBranch;
+      if (args?.mergeStrategy) options.mergeStrategy = args.mergeStrategy;
+      if (args?.message) options.message = args.message;
+      const data = await client.mergePullRequest(
+        w,
+        r,
+        args!.prId as number,
+        options
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_merge_check",
+    description:
+      "Check whether a pull request can be merged. Returns canMerge, vetoes (what blocks the merge: conflicts, missing approvals, changes requested, failing builds, open tasks, branch restrictions) and warnings (problems that are not enforced), plus approval, task and build counts. Requires workspace, repoSlug, and prId parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.checkPullRequestMerge(
+        w,
+        r,
+        args!.prId as number
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pr_update",
+    description:
+      "Update pull request title and/or description. Requires workspace, repoSlug, and prId parameters. Optional: title, description. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        title: { type: "string" },
+        description: { type: "string" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const updates: any = {};
+      if (args?.title) updates.title = args.title;
+      if (args?.description !== undefined) {
+        updates.description = args.description;
+      }
+      const data = await client.updatePullRequest(
+        w,
+        r,
+        args!.prId as number,
+        updates
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_reviewers_add",
+    description:
+      "Add reviewers to a pull request. Requires workspace, repoSlug, prId, and reviewers (array of display names, nicknames, emails, @mentions, Cloud UUIDs or Server usernames). Any that cannot be resolved are listed as unresolvedReviewers. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "reviewers"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        reviewers: { type: "array", items: { type: "string" } },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const reviewers = args!.reviewers as string[];
+      if (!Array.isArray(reviewers) || reviewers.length === 0) {
+        throw new Error("reviewers must be a non-empty array of strings");
+      }
+      const { ids, unresolvedOut } = await resolveReviewers(w, reviewers);
+      if (ids.length === 0) {
+        return { content: unresolvedOut, isError: true };
+      }
+      const data = await client.addPullRequestReviewers(
+        w,
+        r,
+        args!.prId as number,
+        ids
+      );
+      return { content: [...modelOut(data, args), ...unresolvedOut] };
+    },
+  });
+
+  addTool({
+    name: "pr_comments_list",
+    description:
+      "List comments on a pull request as threads: top-level comments with their replies nested under replies, and resolved set on thread starters. Requires workspace, repoSlug, and prId parameters. Optional limit (default 100) and cursor for paging; a reply whose parent is on another page appears as a top-level entry. Optional raw=true returns the unnormalized, flat Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listPullRequestComments(
+        w,
+        r,
+        args!.prId as number,
+        getPageOptions(args)
+      );
+      if (args?.raw) return { content: modelOut(data, args) };
+      return {
+        content: jsonOut({ ...data, values: buildCommentTree(data.values) }),
+      };
+    },
+  });
+
+  addTool({
+    name: "commit_get",
+    description:
+      "Get details of a specific commit. Requires workspace, repoSlug, and commitHash parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "commitHash"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        commitHash: { type: "string" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getCommit(w, r, args!.commitHash as string);
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "commit_diff",
+    description: `Get diff for a specific commit. Requires workspace, repoSlug, and commitHash parameters. ${diffHelp}`,
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "commitHash"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        commitHash: { type: "string" },
+        ...diffProperties,
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getCommitDiff(
+        w,
+        r,
+        args!.commitHash as string,
+        getDiffOptions(args)
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "branch_compare",
+    description: `Compare two branches to see differences. Requires workspace, repoSlug, source (branch name), and destination (branch name) parameters. ${diffHelp}`,
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "source", "destination"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        source: { type: "string" },
+        destination: { type: "string" },
+        ...diffProperties,
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.compareBranches(
+        w,
+        r,
+        args!.source as string,
+        args!.destination as string,
+        getDiffOptions(args)
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pr_inline_comment_add",
+    description:
+      "Add an inline comment to a pull request at a specific file and line. Requires workspace, repoSlug, prId, filePath, line, and text parameters. Line numbers refer to the new file; use lineType REMOVED (with the old file's line number) to comment on a deleted line. Optional endLine comments on the range line..endLine. The anchor is checked against the PR diff first, and an invalid one fails with the nearest valid lines. Optional: lineType (ADDED|CONTEXT|REMOVED, default ADDED). Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "filePath", "line", "text"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        filePath: { type: "string" },
+        line: { type: "number" },
+        endLine: { type: "number" },
+        text: { type: "string" },
+        lineType: { type: "string", enum: ["ADDED", "CONTEXT", "REMOVED"] },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.addInlineCommentAfterReview(
+        w,
+        r,
+        args!.prId as number,
+        args!.filePath as string,
+        args!.line as number,
+        args!.text as string,
+        (args!.lineType as "ADDED" | "CONTEXT" | "REMOVED") || "ADDED",
+        args?.endLine as number | undefined
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pipelines_list",
+    description:
+      "List Bitbucket Cloud pipelines, newest first. Requires workspace and repoSlug parameters. Optional branch or prId to filter, plus limit (default 100) and cursor for paging.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        branch: { type: "string" },
+        prId: { type: "number" },
+        ...paginationProperties,
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listPipelines(
+        w,
+        r,
+        {
+          branch: args?.branch as string | undefined,
+          prId: args?.prId as number | undefined,
+        },
+        getPageOptions(args)
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pipeline_trigger",
+    description:
+      "Trigger a Bitbucket Cloud pipeline on a branch. Requires workspace, repoSlug, and branch parameters. Optional: commitHash, customPipeline (name of a custom pipeline), variables (array of {key, value, secured}).",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "branch"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        branch: { type: "string" },
+        commitHash: { type: "string" },
+        customPipeline: { type: "string" },
+        variables: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["key", "value"],
+            properties: {
+              key: { type: "string" },
+              value: { type: "string" },
+              secured: { type: "boolean" },
+            },
+          },
+        },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.triggerPipeline(w, r, {
+        branch: args!.branch as string,
+        commitHash: args?.commitHash as string | undefined,
+        customPipeline: args?.customPipeline as string | undefined,
+        variables: args?.variables,
+      });
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pipeline_get",
+    description:
+      "Get a Bitbucket Cloud pipeline with the status of each step. Requires workspace, repoSlug, and pipelineId (UUID or build number) parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "pipelineId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        pipelineId: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getPipeline(w, r, String(args!.pipelineId));
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pipeline_stop",
+    description:
+      "Stop a running Bitbucket Cloud pipeline. Requires workspace, repoSlug, and pipelineId parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "pipelineId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        pipelineId: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.stopPipeline(w, r, String(args!.pipelineId));
+      return { content: jsonOut(data ?? { stopped: true }) };
+    },
+  });
+
+  addTool({
+    name: "pipeline_step_log",
+    description:
+      "Get the last lines of a Bitbucket Cloud pipeline step log. Requires workspace, repoSlug, pipelineId, and stepId parameters. Optional tailLines (default 200). The full log is downloaded and totalLines reports its length.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "pipelineId", "stepId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        pipelineId: { type: "string" },
+        stepId: { type: "string" },
+        tailLines: { type: "number", minimum: 1 },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getPipelineStepLog(
+        w,
+        r,
+        String(args!.pipelineId),
+        args!.stepId as string,
+        args?.tailLines as number | undefined
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "deployment_environments_list",
+    description:
+      "List Bitbucket Cloud deployment environments (e.g. Test, Staging, Production). Requires workspace and repoSlug parameters. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listEnvironments(w, r, getPageOptions(args));
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "deployments_latest",
+    description:
+      "Show the latest Bitbucket Cloud deployment for each environment: state, status, commit and release. Requires workspace and repoSlug parameters. Optional environment (name, slug or UUID) to check a single environment.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        environment: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getLatestDeployments(
+        w,
+        r,
+        args?.environment as string | undefined
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "variables_list",
+    description:
+      "List Bitbucket Cloud pipeline variables. Repository variables by default; pass environment (name, slug or UUID) for that deployment environment's variables. Variable values are never returned. Requires workspace and repoSlug parameters. Optional limit (default 100) and cursor for paging.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        environment: { type: "string" },
+        ...paginationProperties,
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listVariables(
+        w,
+        r,
+        args?.environment as string | undefined,
+        getPageOptions(args)
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "variable_set",
+    description:
+      "Create a Bitbucket Cloud pipeline variable, or replace the value of an existing one with the same key (e.g. to rotate a secret). Requires workspace, repoSlug, key, and value parameters. Optional environment (name, slug or UUID) targets deployment variables instead of repository variables. Optional secured (default: keep the current setting, false for new variables). The value is never echoed back.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "key", "value"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        key: { type: "string" },
+        value: { type: "string" },
+        secured: { type: "boolean" },
+        environment: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const { variable, created } = await client.setVariable(w, r, {
+        key: args!.key as string,
+        value: args!.value as string,
+        secured: args?.secured as boolean | undefined,
+        environment: args?.environment as string | undefined,
+      });
+      return { content: jsonOut({ ...variable, created }) };
+    },
+  });
+
+  addTool({
+    name: "variable_delete",
+    description:
+      "Delete a Bitbucket Cloud pipeline variable by key. Requires workspace, repoSlug, and key parameters. Optional environment (name, slug or UUID) targets deployment variables instead of repository variables.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "key"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        key: { type: "string" },
+        environment: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.deleteVariable(
+        w,
+        r,
+        args!.key as string,
+        args?.environment as string | undefined
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "commit_statuses_list",
+    description:
+      "List build statuses reported for a commit. Requires workspace, repoSlug, and commitHash parameters. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "commitHash"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        commitHash: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listCommitStatuses(
+        w,
+        r,
+        args!.commitHash as string,
+        getPageOptions(args)
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "commit_status_create",
+    description:
+      "Report a build status on a commit. Requires workspace, repoSlug, commitHash, key (unique build identifier), state (SUCCESSFUL|FAILED|INPROGRESS|STOPPED; Server records STOPPED as FAILED), and url parameters. Optional: name, description. Posting the same key again updates the status.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "commitHash", "key", "state", "url"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        commitHash: { type: "string" },
+        key: { type: "string" },
+        state: {
+          type: "string",
+          enum: ["SUCCESSFUL", "FAILED", "INPROGRESS", "STOPPED"],
+        },
+        url: { type: "string" },
+        name: { type: "string" },
+        description: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.createCommitStatus(
+        w,
+        r,
+        args!.commitHash as string,
+        {
+          key: args!.key as string,
+          state: args!.state,
+          url: args!.url as string,
+          name: args?.name as string | undefined,
+          description: args?.description as string | undefined,
+        }
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pr_build_summary",
+    description:
+      "Summarize build results for a pull request's source commit: overall state plus the latest status per build key. Requires workspace, repoSlug, and prId parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.getPullRequestBuildSummary(
+        w,
+        r,
+        args!.prId as number
+      );
+      return { content: jsonOut(data) };
+    },
+  });
+
+  const issueStates = [
+    "new",
+    "open",
+    "submitted",
+    "resolved",
+    "on hold",
+    "invalid",
+    "duplicate",
+    "wontfix",
+    "closed",
+  ];
+  const issueFieldProperties = {
+    content: { type: "string" },
+    kind: {
+      type: "string",
+      enum: ["bug", "enhancement", "proposal", "task"],
+    },
+    priority: {
+      type: "string",
+      enum: ["trivial", "minor", "major", "critical", "blocker"],
+    },
+    assignee: { type: "string" },
+    component: { type: "string" },
+    milestone: { type: "string" },
+    version: { type: "string" },
+  };
+  const getIssueFields = (args: any): IssueInput => {
+    const fields: IssueInput = {};
+    for (const key of [
+      "title",
+      "content",
+      "kind",
+      "priority",
+      "assignee",
+      "component",
+      "milestone",
+      "version",
+    ] as const) {
+      if (args?.[key] !== undefined) (fields as any)[key] = args[key];
+    }
+    return fields;
+  };
+
+  addTool({
+    name: "issues_list",
+    description:
+      'List issues in a Bitbucket Cloud repository, most recently updated first. Requires workspace and repoSlug. Optional filters: state (one state or an array, e.g. ["new", "open"]), assignee (account ID, {uuid} or nickname), kind, priority, and query for extra BBQL (e.g. title ~ "login"). Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.',
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        state: {
+          oneOf: [
+            { type: "string", enum: issueStates },
+            { type: "array", items: { type: "string", enum: issueStates } },
+          ],
+        },
+        assignee: { type: "string" },
+        kind: issueFieldProperties.kind,
+        priority: issueFieldProperties.priority,
+        query: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listIssues(
+        w,
+        r,
+        {
+          state: args?.state,
+          assignee: args?.assignee as string | undefined,
+          kind: args?.kind,
+          priority: args?.priority,
+          query: args?.query as string | undefined,
+        },
+        getPageOptions(args)
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "issue_get",
+    description:
+      "Get a Bitbucket Cloud issue with its comments. Requires workspace, repoSlug, and issueId parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "issueId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        issueId: { type: "number" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.compareBranches(
+      const data = await client.getIssue(w, r, args!.issueId as number);
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "issue_create",
+    description:
+      "Create an issue in a Bitbucket Cloud repository. Requires workspace, repoSlug, and title. Optional content, kind (default bug), priority (default major), assignee (account ID or {uuid}), component, milestone, and version. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "title"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        title: { type: "string" },
+        ...issueFieldProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.createIssue(w, r, {
+        ...getIssueFields(args),
+        title: args!.title as string,
+      });
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "issue_update",
+    description:
+      "Update fields of a Bitbucket Cloud issue. Requires workspace, repoSlug, and issueId. Pass any of title, content, kind, priority, assignee, component, milestone, version; an empty string clears assignee, component, milestone or version. Use issue_state_set to change the state. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "issueId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        issueId: { type: "number" },
+        title: { type: "string" },
+        ...issueFieldProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const fields = getIssueFields(args);
+      if (Object.keys(fields).length === 0) {
+        throw new Error("Pass at least one field to update");
+      }
+      const data = await client.updateIssue(
         w,
         r,
-        args!.source as string,
-        args!.destination as string
+        args!.issueId as number,
+        fields
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "issue_state_set",
+    description:
+      "Change the state of a Bitbucket Cloud issue (new, open, submitted, resolved, on hold, invalid, duplicate, wontfix, closed). Requires workspace, repoSlug, issueId, and state. Optional message is recorded with the change. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "issueId", "state"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        issueId: { type: "number" },
+        state: { type: "string", enum: issueStates },
+        message: { type: "string" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.setIssueState(
+        w,
+        r,
+        args!.issueId as number,
+        args!.state,
+        args?.message as string | undefined
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "issue_comment_add",
+    description:
+      "Add a comment to a Bitbucket Cloud issue. Requires workspace, repoSlug, issueId, and content parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "issueId", "content"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        issueId: { type: "number" },
+        content: { type: "string" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.addIssueComment(
+        w,
+        r,
+        args!.issueId as number,
+        args!.content as string
       );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  const webhookProperties = {
+    url: { type: "string" },
+    name: { type: "string" },
+    events: { type: "array", items: { type: "string" } },
+    active: { type: "boolean" },
+    secret: { type: "string" },
+  };
+
+  addTool({
+    name: "webhooks_list",
+    description:
+      "List repository webhooks with their URL, events and whether a secret is set. Requires workspace and repoSlug parameters. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listWebhooks(w, r, getPageOptions(args));
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "webhook_create",
+    description:
+      'Create a repository webhook. Requires workspace, repoSlug, url, and events (Cloud e.g. "repo:push", "pullrequest:created"; Server e.g. "repo:refs_changed", "pr:opened"). Optional name, active (default true), and secret used to sign deliveries. Optional raw=true returns the unnormalized Bitbucket response.',
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "url", "events"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        ...webhookProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const events = args!.events;
+      if (!Array.isArray(events) || events.length === 0) {
+        throw new Error("events must be a non-empty array");
+      }
+      const data = await client.createWebhook(w, r, {
+        url: args!.url as string,
+        events,
+        name: args?.name as string | undefined,
+        active: args?.active as boolean | undefined,
+        secret: args?.secret as string | undefined,
+      });
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "webhook_update",
+    description:
+      "Update a repository webhook. Requires workspace, repoSlug, and webhookId. Pass any of url, name, events (replaces the subscription list), active, or secret (empty string removes it); other fields keep their current value. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "webhookId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        webhookId: { type: "string" },
+        ...webhookProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.updateWebhook(w, r, String(args!.webhookId), {
+        url: args?.url as string | undefined,
+        name: args?.name as string | undefined,
+        events: args?.events as string[] | undefined,
+        active: args?.active as boolean | undefined,
+        secret: args?.secret as string | undefined,
+      });
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "webhook_delete",
+    description:
+      "Delete a repository webhook. Requires workspace, repoSlug, and webhookId parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "webhookId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        webhookId: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.deleteWebhook(w, r, String(args!.webhookId));
       return { content: jsonOut(data) };
     },
   });
 
   addTool({
-    name: "pr_inline_comment_add",
+    name: "webhook_test",
     description:
-      "Add an inline comment to a pull request at a specific file and line. Requires workspace, repoSlug, prId, filePath, line, and text parameters. Optional: lineType (ADDED|CONTEXT|REMOVED, default ADDED).",
+      "Send a test request to a webhook's URL and return the response Bitbucket received (Server/Data Center only). Requires workspace, repoSlug, and webhookId parameters.",
     inputSchema: {
       type: "object",
-      required: ["workspace", "repoSlug", "prId", "filePath", "line", "text"],
+      required: ["workspace", "repoSlug", "webhookId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        webhookId: { type: "string" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.testWebhook(w, r, String(args!.webhookId));
+      return { content: jsonOut(data) };
+    },
+  });
+
+  addTool({
+    name: "pr_tasks_list",
+    description:
+      "List tasks on a pull request with their state (OPEN or RESOLVED) and the comment they are attached to, if any. Requires workspace, repoSlug, and prId parameters. Optional limit (default 100) and cursor for paging. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        ...paginationProperties,
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.listPullRequestTasks(
+        w,
+        r,
+        args!.prId as number,
+        getPageOptions(args)
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_task_create",
+    description:
+      "Create a task on a pull request. Requires workspace, repoSlug, prId, and text. Optional commentId attaches the task to that comment. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "text"],
       properties: {
         workspace: { type: "string" },
         repoSlug: { type: "string" },
         prId: { type: "number" },
-        filePath: { type: "string" },
-        line: { type: "number" },
         text: { type: "string" },
-        lineType: { type: "string", enum: ["ADDED", "CONTEXT", "REMOVED"] },
+        commentId: { type: "number" },
+        raw: { type: "boolean" },
       },
     },
     handler: async (args: any) => {
       const w = getDefaultWorkspace(args);
       const r = getDefaultRepoSlug(args);
-      const data = await client.addInlineCommentAfterReview(
+      const data = await client.createPullRequestTask(
         w,
         r,
         args!.prId as number,
-        args!.filePath as string,
-        args!.line as number,
         args!.text as string,
-        (args!.lineType as "ADDED" | "CONTEXT" | "REMOVED") || "ADDED"
+        args?.commentId as number | undefined
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_task_resolve",
+    description:
+      "Resolve a pull request task. Requires workspace, repoSlug, prId, and taskId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "taskId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        taskId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.setPullRequestTaskState(
+        w,
+        r,
+        args!.prId as number,
+        args!.taskId as number,
+        "RESOLVED"
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_task_reopen",
+    description:
+      "Reopen a pull request task. Requires workspace, repoSlug, prId, and taskId parameters. Optional raw=true returns the unnormalized Bitbucket response.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "taskId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        taskId: { type: "number" },
+        raw: { type: "boolean" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.setPullRequestTaskState(
+        w,
+        r,
+        args!.prId as number,
+        args!.taskId as number,
+        "OPEN"
+      );
+      return { content: modelOut(data, args) };
+    },
+  });
+
+  addTool({
+    name: "pr_task_delete",
+    description:
+      "Delete a pull request task. Requires workspace, repoSlug, prId, and taskId parameters.",
+    inputSchema: {
+      type: "object",
+      required: ["workspace", "repoSlug", "prId", "taskId"],
+      properties: {
+        workspace: { type: "string" },
+        repoSlug: { type: "string" },
+        prId: { type: "number" },
+        taskId: { type: "number" },
+      },
+    },
+    handler: async (args: any) => {
+      const w = getDefaultWorkspace(args);
+      const r = getDefaultRepoSlug(args);
+      const data = await client.deletePullRequestTask(
+        w,
+        r,
+        args!.prId as number,
+        args!.taskId as number
       );
       return { content: jsonOut(data) };
     },
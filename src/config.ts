@@ -11,6 +11,15 @@ export interface BitbucketConfig {
   ATLASSIAN_API_TOKEN: string;
   authType: 'basic' | 'bearer';
   defaultDestinationBranch: string;
+  retryMaxAttempts: number;
+  diffIgnore?: string[]; // Replaces the default diff ignore globs when set
+}
+
+// Comma-separated string (env) or array (JSON config); "" ignores nothing
+function parseGlobList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== 'string') return undefined;
+  return value.split(',').map((p) => p.trim()).filter(Boolean);
 }
 
 export function loadConfig(cwd: string = process.cwd()): BitbucketConfig {
@@ -26,12 +35,16 @@ export function loadConfig(cwd: string = process.cwd()): BitbucketConfig {
         const baseUrl = envUrl === 'bitbucket' ? 'https://api.bitbucket.org/2.0' : (envUrl || 'https://api.bitbucket.org/2.0');
         const authType = baseUrl.includes('api.bitbucket.org') ? 'basic' : 'bearer';
         const defaultDestinationBranch = process.env.BITBUCKET_DEFAULT_DEST_BRANCH || 'main';
+        const retryMaxAttempts = Number(process.env.BITBUCKET_RETRY_MAX_ATTEMPTS) || 3;
+        const diffIgnore = parseGlobList(process.env.BITBUCKET_DIFF_IGNORE);
         return {
           baseUrl,
           ATLASSIAN_USER_EMAIL: envEmail,
           ATLASSIAN_API_TOKEN: envToken,
           authType,
           defaultDestinationBranch,
+          retryMaxAttempts,
+          diffIgnore,
         };
       }
     }
@@ -41,12 +54,16 @@ export function loadConfig(cwd: string = process.cwd()): BitbucketConfig {
       const baseUrl = process.env.ATLASSIAN_SITE_URL === 'bitbucket' ? 'https://api.bitbucket.org/2.0' : (process.env.ATLASSIAN_SITE_URL || 'https://api.bitbucket.org/2.0');
       const authType = baseUrl.includes('api.bitbucket.org') ? 'basic' : 'bearer';
       const defaultDestinationBranch = process.env.BITBUCKET_DEFAULT_DEST_BRANCH || 'main';
+      const retryMaxAttempts = Number(process.env.BITBUCKET_RETRY_MAX_ATTEMPTS) || 3;
+      const diffIgnore = parseGlobList(process.env.BITBUCKET_DIFF_IGNORE);
       return {
         baseUrl,
         ATLASSIAN_USER_EMAIL: process.env.ATLASSIAN_USER_EMAIL!,
         ATLASSIAN_API_TOKEN: process.env.ATLASSIAN_API_TOKEN!,
         authType,
         defaultDestinationBranch,
+        retryMaxAttempts,
+        diffIgnore,
       };
     }
     return null;
@@ -67,12 +84,16 @@ export function loadConfig(cwd: string = process.cwd()): BitbucketConfig {
           const baseUrl = e.ATLASSIAN_SITE_URL === 'bitbucket' ? 'https://api.bitbucket.org/2.0' : e.ATLASSIAN_SITE_URL;
           const authType = baseUrl.includes('api.bitbucket.org') ? 'basic' : 'bearer';
           const defaultDestinationBranch = e.BITBUCKET_DEFAULT_DEST_BRANCH || raw.bitbucket.defaultDestinationBranch || 'main';
+          const retryMaxAttempts = Number(e.BITBUCKET_RETRY_MAX_ATTEMPTS || raw.bitbucket.retryMaxAttempts) || 3;
+          const diffIgnore = parseGlobList(e.BITBUCKET_DIFF_IGNORE ?? raw.bitbucket.diffIgnore);
           return {
             baseUrl,
             ATLASSIAN_USER_EMAIL: e.ATLASSIAN_USER_EMAIL,
             ATLASSIAN_API_TOKEN: e.ATLASSIAN_API_TOKEN,
             authType,
             defaultDestinationBranch,
+            retryMaxAttempts,
+            diffIgnore,
           } as BitbucketConfig;
         }
       } catch (e) {
@@ -0,0 +1,345 @@
+// Unified diff parsing and rendering for the backend-agnostic diff model.
+// Cloud returns git's unified format; Server's JSON is mapped in models.ts.
+import { matchesAnyGlob } from "./glob.js";
+import {
+  DiffFile,
+  DiffHunk,
+  DiffLine,
+  DiffStat,
+  SkippedDiffFile,
+} from "./models.js";
+
+// Files diff tools skip unless asked for: lockfiles and generated output.
+// Binary files are skipped too. Override with BITBUCKET_DIFF_IGNORE.
+export const DEFAULT_DIFF_IGNORE = [
+  "*.lock",
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "pnpm-lock.yaml",
+  "go.sum",
+  "*.min.js",
+  "*.min.css",
+  "*.map",
+  "*.pb.go",
+  "*_pb2.py",
+  "*.generated.*",
+  "**/dist/**",
+];
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// Strip git's a/ and b/ prefixes and C-style quoting; /dev/null means absent
+function diffPath(raw: string): string | undefined {
+  let path = raw.replace(/\t.*$/, "").trim();
+  if (path.startsWith('"') && path.endsWith('"')) {
+    path = path.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  if (path === "/dev/null") return undefined;
+  return path.replace(/^[ab]\//, "");
+}
+
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | undefined;
+  let oldPath: string | undefined;
+  let newPath: string | undefined;
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  const finish = () => {
+    if (!file) return;
+    file.path = newPath ?? oldPath ?? file.path;
+    file.oldPath =
+      oldPath && newPath && oldPath !== newPath ? oldPath : undefined;
+    if (file.status === "MODIFIED" && file.oldPath) file.status = "RENAMED";
+    files.push(file);
+    file = undefined;
+    hunk = undefined;
+  };
+
+  for (const line of text.split("\n")) {
+    // Inside a hunk, the header's line counts decide what is content
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line[0];
+      const content = line.slice(1);
+      let parsed: DiffLine | undefined;
+      if (marker === "+") {
+        parsed = { type: "ADDED", text: content, newLine: newLine++ };
+        newRemaining--;
+        file!.additions++;
+      } else if (marker === "-") {
+        parsed = { type: "REMOVED", text: content, oldLine: oldLine++ };
+        oldRemaining--;
+        file!.deletions++;
+      } else if (marker === " " || line === "") {
+        parsed = {
+          type: "CONTEXT",
+          text: content,
+          oldLine: oldLine++,
+          newLine: newLine++,
+        };
+        oldRemaining--;
+        newRemaining--;
+      }
+      if (parsed) {
+        hunk.lines.push(parsed);
+        continue;
+      }
+    }
+    if (line.startsWith("\\")) {
+      // "\ No newline at end of file"
+      continue;
+    }
+
+    if (line.startsWith("diff --git ")) {
+      finish();
+      const paths = /^diff --git (\S+|"[^"]*") (\S+|"[^"]*")$/.exec(line);
+      oldPath = paths ? diffPath(paths[1]) : undefined;
+      newPath = paths ? diffPath(paths[2]) : undefined;
+      file = {
+        path: newPath ?? oldPath ?? "",
+        status: "MODIFIED",
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      continue;
+    }
+    if (!file) continue;
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        header: header[5] || undefined,
+        lines: [],
+      };
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      file.hunks.push(hunk);
+    } else if (line.startsWith("new file mode")) {
+      file.status = "ADDED";
+    } else if (line.startsWith("deleted file mode")) {
+      file.status = "DELETED";
+    } else if (line.startsWith("rename from ")) {
+      oldPath = diffPath(line.slice("rename from ".length));
+    } else if (line.startsWith("rename to ")) {
+      newPath = diffPath(line.slice("rename to ".length));
+    } else if (line.startsWith("--- ")) {
+      oldPath = diffPath(line.slice(4));
+      if (!oldPath) file.status = "ADDED";
+    } else if (line.startsWith("+++ ")) {
+      newPath = diffPath(line.slice(4));
+      if (!newPath) file.status = "DELETED";
+    } else if (
+      line.startsWith("Binary files ") ||
+      line === "GIT binary patch"
+    ) {
+      file.binary = true;
+    }
+  }
+  finish();
+  return files;
+}
+
+/**
+ * Split git's unified format into one chunk per file, in the same order as
+ * parseUnifiedDiff returns them.
+ */
+export function splitUnifiedDiff(text: string): string[] {
+  const chunks: string[][] = [];
+  for (const line of text.replace(/\n$/, "").split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      chunks.push([]);
+    }
+    chunks[chunks.length - 1]?.push(line);
+  }
+  return chunks.map((c) => `${c.join("\n")}\n`);
+}
+
+/**
+ * Why `file` is left out of a filtered diff, or undefined to keep it.
+ * `include` and `exclude` match the new or old path; `ignore` patterns and
+ * binary files are only skipped when `ignore` is given.
+ */
+export function diffSkipReason(
+  file: DiffFile,
+  filters: { include?: string[]; exclude?: string[]; ignore?: string[] }
+): SkippedDiffFile["reason"] | undefined {
+  const paths = file.oldPath ? [file.path, file.oldPath] : [file.path];
+  if (
+    filters.include?.length &&
+    !paths.some((p) => matchesAnyGlob(p, filters.include!))
+  ) {
+    return "excluded";
+  }
+  if (
+    filters.exclude?.length &&
+    paths.some((p) => matchesAnyGlob(p, filters.exclude!))
+  ) {
+    return "excluded";
+  }
+  if (filters.ignore) {
+    if (file.binary) return "binary";
+    if (paths.some((p) => matchesAnyGlob(p, filters.ignore!))) return "ignored";
+  }
+  return undefined;
+}
+
+const LINE_PREFIX = { ADDED: "+", REMOVED: "-", CONTEXT: " " } as const;
+
+/** The diff --git line and headers git writes before a file's hunks. */
+export function formatUnifiedHeader(file: DiffFile): string {
+  const oldPath =
+    file.status === "ADDED" ? undefined : (file.oldPath ?? file.path);
+  const newPath = file.status === "DELETED" ? undefined : file.path;
+  const out = [
+    `diff --git a/${oldPath ?? file.path} b/${newPath ?? file.path}`,
+  ];
+  if (file.status === "ADDED") out.push("new file mode 100644");
+  if (file.status === "DELETED") out.push("deleted file mode 100644");
+  if (file.status === "RENAMED") {
+    out.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+  }
+  if (file.binary) {
+    out.push(
+      `Binary files ${oldPath ? `a/${oldPath}` : "/dev/null"} and ${
+        newPath ? `b/${newPath}` : "/dev/null"
+      } differ`
+    );
+  } else if (file.hunks.length > 0) {
+    out.push(
+      `--- ${oldPath ? `a/${oldPath}` : "/dev/null"}`,
+      `+++ ${newPath ? `b/${newPath}` : "/dev/null"}`
+    );
+  }
+  return `${out.join("\n")}\n`;
+}
+
+export function formatUnifiedHunk(hunk: DiffHunk): string {
+  const out = [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${
+      hunk.newLines
+    } @@${hunk.header ? ` ${hunk.header}` : ""}`,
+  ];
+  for (const line of hunk.lines) {
+    out.push(`${LINE_PREFIX[line.type]}${line.text}`);
+  }
+  return `${out.join("\n")}\n`;
+}
+
+/** Render the diff model back into git's unified format. */
+export function formatUnifiedDiff(files: DiffFile[]): string {
+  return files
+    .map(
+      (file) =>
+        formatUnifiedHeader(file) +
+        (file.binary ? "" : file.hunks.map(formatUnifiedHunk).join(""))
+    )
+    .join("");
+}
+
+// Where a slice of a hunk starts on one side. A side with no lines counts
+// from the line before it, as git does.
+function sliceStart(
+  start: number,
+  total: number,
+  before: number,
+  count: number
+): number {
+  if (total === 0) return start;
+  return count === 0 ? start + before - 1 : start + before;
+}
+
+/** Lines `from` to `to` of a hunk as a hunk of their own. */
+export function sliceHunk(hunk: DiffHunk, from: number, to: number): DiffHunk {
+  const lines = hunk.lines.slice(from, to);
+  const oldCount = (ls: DiffLine[]) =>
+    ls.filter((l) => l.type !== "ADDED").length;
+  const newCount = (ls: DiffLine[]) =>
+    ls.filter((l) => l.type !== "REMOVED").length;
+  const before = hunk.lines.slice(0, from);
+  const oldLines = oldCount(lines);
+  const newLines = newCount(lines);
+  return {
+    oldStart: sliceStart(
+      hunk.oldStart,
+      hunk.oldLines,
+      oldCount(before),
+      oldLines
+    ),
+    oldLines,
+    newStart: sliceStart(
+      hunk.newStart,
+      hunk.newLines,
+      newCount(before),
+      newLines
+    ),
+    newLines,
+    header: hunk.header,
+    lines,
+  };
+}
+
+export function summarizeDiff(files: DiffFile[]): DiffStat {
+  return {
+    filesChanged: files.length,
+    additions: files.reduce((n, f) => n + f.additions, 0),
+    deletions: files.reduce((n, f) => n + f.deletions, 0),
+    files: files.map(({ hunks: _hunks, ...stat }) => stat),
+  };
+}
+
+// Comments anchor to the new file, or to removed lines of the old one
+export type DiffSide = "old" | "new";
+
+function lineNumber(line: DiffLine, side: DiffSide): number | undefined {
+  return side === "old" ? line.oldLine : line.newLine;
+}
+
+function anchorableLines(file: DiffFile, side: DiffSide): DiffLine[] {
+  return file.hunks
+    .flatMap((h) => h.lines)
+    .filter((l) =>
+      side === "old" ? l.type === "REMOVED" : l.newLine !== undefined
+    );
+}
+
+export function findDiffFile(
+  files: DiffFile[],
+  path: string
+): DiffFile | undefined {
+  const wanted = path.replace(/^\/+/, "");
+  return files.find((f) => f.path === wanted || f.oldPath === wanted);
+}
+
+export function findDiffLine(
+  file: DiffFile,
+  line: number,
+  side: DiffSide
+): DiffLine | undefined {
+  return anchorableLines(file, side).find((l) => lineNumber(l, side) === line);
+}
+
+/** The `count` lines closest to `line` that a comment could anchor to. */
+export function nearestDiffLines(
+  file: DiffFile,
+  line: number,
+  side: DiffSide,
+  count: number = 5
+): DiffLine[] {
+  const distance = (l: DiffLine) => Math.abs(lineNumber(l, side)! - line);
+  return anchorableLines(file, side)
+    .sort((a, b) => distance(a) - distance(b))
+    .slice(0, count)
+    .sort((a, b) => lineNumber(a, side)! - lineNumber(b, side)!);
+}
@@ -0,0 +1,78 @@
+// Minimal glob matching for repository paths. Supports `*` (within a path
+// segment), `**` (across segments), `?` and `{a,b}` alternatives. Patterns
+// without a slash match against the file name only, like .gitignore.
+
+// Index of the "}" closing the "{" at `open`, allowing nested braces
+function closingBrace(pattern: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < pattern.length; i++) {
+    if (pattern[i] === "{") depth++;
+    if (pattern[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// Split brace contents at commas that are not inside nested braces
+function braceOptions(body: string): string[] {
+  const options: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "{") depth++;
+    if (body[i] === "}") depth--;
+    if (body[i] === "," && depth === 0) {
+      options.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  options.push(body.slice(start));
+  return options;
+}
+
+function translate(pattern: string): string {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories
+        if (pattern[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "{" && closingBrace(pattern, i) !== -1) {
+      const end = closingBrace(pattern, i);
+      const options = braceOptions(pattern.slice(i + 1, end)).map(translate);
+      re += `(?:${options.join("|")})`;
+      i = end;
+    } else {
+      re += c.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return re;
+}
+
+// Every character outside the glob syntax is escaped, so the result is
+// always a valid expression
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${translate(pattern)}$`);
+}
+
+export function matchesGlob(path: string, pattern: string): boolean {
+  const target = pattern.includes("/")
+    ? path
+    : path.slice(path.lastIndexOf("/") + 1);
+  return globToRegExp(pattern.replace(/^\//, "")).test(target);
+}
+
+export function matchesAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some((p) => matchesGlob(path, p));
+}
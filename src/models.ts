@@ -0,0 +1,975 @@
+// Backend-agnostic shapes for the entities tools return. Every mapper keeps a
+// reference to the payload it was built from so callers can opt back into
+// the raw Cloud/Server response with rawPayload().
+
+export type PullRequestState = "OPEN" | "MERGED" | "DECLINED" | "SUPERSEDED";
+export type ParticipantRole = "AUTHOR" | "REVIEWER" | "PARTICIPANT";
+// Cloud's "changes_requested" is reported as NEEDS_WORK, Server's equivalent
+export type ParticipantStatus = "APPROVED" | "NEEDS_WORK" | "UNAPPROVED";
+
+export interface User {
+  id: string; // Cloud UUID or Server user slug
+  username?: string; // Cloud nickname or Server login name
+  displayName: string;
+  email?: string;
+}
+
+export interface Participant {
+  user: User;
+  role: ParticipantRole;
+  approved: boolean;
+  status: ParticipantStatus;
+}
+
+export interface PullRequestRef {
+  branch: string;
+  commit?: string;
+  repository?: string; // "workspace/slug" on Cloud, "PROJECT/slug" on Server
+}
+
+export interface PullRequest {
+  id: number;
+  title: string;
+  description: string;
+  state: PullRequestState;
+  author?: User;
+  source: PullRequestRef;
+  destination: PullRequestRef;
+  reviewers: Participant[];
+  participants: Participant[];
+  createdAt?: string;
+  updatedAt?: string;
+  url?: string;
+  version?: number; // Server only, required for optimistic locking
+  commentCount?: number;
+  openTaskCount?: number; // Unresolved tasks, which block merging
+}
+
+export interface Branch {
+  name: string;
+  latestCommit?: string;
+  isDefault?: boolean;
+}
+
+// kind is backend-native: Cloud restriction kinds (push, force, delete,
+// require_approvals_to_merge, ...) or Server permission types (read-only,
+// no-deletes, fast-forward-only, pull-request-only)
+export interface BranchRestriction {
+  id: number;
+  kind: string;
+  pattern: string;
+  value?: number; // Cloud numeric kinds, e.g. required approvals
+  users: string[]; // Cloud UUIDs or Server user names, as create expects
+  groups: string[];
+}
+
+export interface Tag {
+  name: string;
+  target?: string; // Commit the tag points at
+  message?: string; // Annotated tags only
+  date?: string;
+}
+
+export interface Commit {
+  hash: string;
+  displayHash: string;
+  message: string;
+  author: { name: string; email?: string; user?: User };
+  date?: string;
+  parents: string[];
+  url?: string;
+}
+
+export interface Comment {
+  id: number;
+  text: string;
+  author?: User;
+  createdAt?: string;
+  updatedAt?: string;
+  parentId?: number;
+  inline?: { path: string; from?: number; to?: number };
+  deleted: boolean;
+  resolved?: boolean; // Thread resolution, set on top-level comments
+  version?: number; // Server only, required to edit or delete
+  url?: string;
+}
+
+export interface CommentThread extends Comment {
+  replies: CommentThread[];
+}
+
+export type BuildState = "SUCCESSFUL" | "FAILED" | "INPROGRESS" | "STOPPED";
+
+export interface BuildStatus {
+  key: string;
+  state: BuildState;
+  name?: string;
+  url?: string;
+  description?: string;
+  updatedAt?: string;
+}
+
+export type TreeEntryType = "file" | "directory" | "submodule" | "link";
+
+export interface TreeEntry {
+  path: string; // Relative to the repository root
+  name: string;
+  type: TreeEntryType;
+  size?: number; // Files only, in bytes
+  depth: number; // 1 for direct children of the listed directory
+}
+
+export type DiffFormat = "unified" | "structured" | "stat";
+
+export type DiffLineType = "ADDED" | "REMOVED" | "CONTEXT";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string; // Without the +/-/space prefix
+  oldLine?: number; // Unset for ADDED lines
+  newLine?: number; // Unset for REMOVED lines
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  header?: string; // Text after the @@ markers, usually the enclosing function
+  lines: DiffLine[];
+}
+
+export type DiffFileStatus = "ADDED" | "DELETED" | "MODIFIED" | "RENAMED";
+
+export interface DiffFile {
+  path: string; // New path, or the old path of a deleted file
+  oldPath?: string; // Set when the file was renamed
+  status: DiffFileStatus;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface DiffStat {
+  filesChanged: number;
+  additions: number;
+  deletions: number;
+  files: Array<Omit<DiffFile, "hunks">>;
+}
+
+export interface SkippedDiffFile {
+  path: string;
+  reason: "excluded" | "ignored" | "binary"; // excluded: by include/exclude
+}
+
+export interface BlameLine {
+  line: number;
+  text: string;
+  hash: string; // Commit that last changed the line
+  author: string;
+  date?: string;
+}
+
+export interface CodeSearchLine {
+  line: number;
+  text: string;
+  match: boolean; // false for surrounding context lines
+}
+
+export interface CodeSearchResult {
+  repository: string; // "workspace/repo" or "PROJECT/repo"
+  path: string;
+  matchCount: number;
+  lines: CodeSearchLine[];
+}
+
+// Cloud issue tracker only
+export type IssueState =
+  | "new"
+  | "open"
+  | "submitted"
+  | "resolved"
+  | "on hold"
+  | "invalid"
+  | "duplicate"
+  | "wontfix"
+  | "closed";
+export type IssueKind = "bug" | "enhancement" | "proposal" | "task";
+export type IssuePriority =
+  "trivial" | "minor" | "major" | "critical" | "blocker";
+
+export interface Issue {
+  id: number;
+  title: string;
+  content: string;
+  state: IssueState;
+  kind: IssueKind;
+  priority: IssuePriority;
+  reporter?: User;
+  assignee?: User;
+  component?: string;
+  milestone?: string;
+  version?: string;
+  votes?: number;
+  createdAt?: string;
+  updatedAt?: string;
+  url?: string;
+}
+
+export interface Webhook {
+  id: string; // Cloud {uuid} or Server numeric id
+  name?: string; // Cloud description, Server name
+  url: string;
+  active: boolean;
+  events: string[];
+  secretSet: boolean; // The secret itself is never returned
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type TaskState = "OPEN" | "RESOLVED";
+
+export interface PullRequestTask {
+  id: number;
+  text: string;
+  state: TaskState;
+  author?: User;
+  commentId?: number; // Comment the task is attached to, if any
+  createdAt?: string;
+  updatedAt?: string;
+  resolvedAt?: string;
+  resolvedBy?: User;
+  version?: number; // Server only, required to update or delete
+}
+
+// Cloud deployments only
+export interface Environment {
+  uuid: string;
+  name: string;
+  slug?: string;
+  type?: string; // Test, Staging or Production
+  locked: boolean;
+}
+
+export interface Deployment {
+  uuid: string;
+  environmentUuid: string;
+  state: string; // COMPLETED, IN_PROGRESS or UNDEPLOYED
+  status?: string; // SUCCESSFUL, FAILED or STOPPED once completed
+  release?: string;
+  commit?: string;
+  pipelineUuid?: string;
+  startedAt?: string;
+  completedAt?: string;
+  url?: string;
+}
+
+export interface PipelineVariable {
+  uuid: string;
+  key: string;
+  secured: boolean; // Values are never returned, secured or not
+}
+
+const rawPayloads = new WeakMap<object, unknown>();
+
+function withRaw<T extends object>(model: T, raw: unknown): T {
+  rawPayloads.set(model, raw);
+  return model;
+}
+
+/**
+ * Swap normalized models back for the backend payloads they were mapped
+ * from. Accepts a single model, an array, or a paginated `{ values }` result;
+ * anything that was not produced by a mapper is returned unchanged.
+ */
+export function rawPayload(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map(rawPayload);
+  }
+  if (data && typeof data === "object") {
+    if (rawPayloads.has(data)) {
+      return rawPayloads.get(data);
+    }
+    if (Array.isArray((data as any).values)) {
+      return { ...data, values: (data as any).values.map(rawPayload) };
+    }
+  }
+  return data;
+}
+
+/**
+ * Nest replies under their parent comments. Replies whose parent is not in
+ * `comments` (for example on another page) are returned as roots.
+ */
+export function buildCommentTree(comments: Comment[]): CommentThread[] {
+  const nodes = new Map<number, CommentThread>();
+  for (const c of comments) nodes.set(c.id, { ...c, replies: [] });
+  const roots: CommentThread[] = [];
+  for (const node of nodes.values()) {
+    const parent =
+      node.parentId !== undefined ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+function isoDate(epochMs: unknown): string | undefined {
+  return typeof epochMs === "number"
+    ? new Date(epochMs).toISOString()
+    : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Bitbucket Cloud (API 2.0)
+// ---------------------------------------------------------------------------
+
+export function mapCloudUser(raw: any): User {
+  return withRaw(
+    {
+      id: raw?.uuid ?? raw?.account_id ?? "",
+      username: raw?.nickname ?? raw?.username,
+      displayName: raw?.display_name ?? raw?.nickname ?? "",
+    },
+    raw
+  );
+}
+
+function cloudStatus(raw: any): ParticipantStatus {
+  if (raw?.state === "changes_requested") return "NEEDS_WORK";
+  if (raw?.approved || raw?.state === "approved") return "APPROVED";
+  return "UNAPPROVED";
+}
+
+export function mapCloudParticipant(raw: any): Participant {
+  return withRaw(
+    {
+      user: mapCloudUser(raw?.user),
+      role: raw?.role === "REVIEWER" ? "REVIEWER" : "PARTICIPANT",
+      approved: Boolean(raw?.approved),
+      status: cloudStatus(raw),
+    },
+    raw
+  );
+}
+
+function cloudRef(raw: any): PullRequestRef {
+  return {
+    branch: raw?.branch?.name ?? "",
+    commit: raw?.commit?.hash,
+    repository: raw?.repository?.full_name,
+  };
+}
+
+export function mapCloudPullRequest(raw: any): PullRequest {
+  const participants: Participant[] = (raw?.participants ?? []).map(
+    mapCloudParticipant
+  );
+  // Cloud lists reviewers as bare users; their review state lives on the
+  // matching participant entry
+  const reviewers: Participant[] = (raw?.reviewers ?? []).map((r: any) => {
+    const user = mapCloudUser(r);
+    const p = participants.find((p) => p.user.id === user.id);
+    return {
+      user,
+      role: "REVIEWER" as const,
+      approved: p?.approved ?? false,
+      status: p?.status ?? "UNAPPROVED",
+    };
+  });
+  return withRaw(
+    {
+      id: raw?.id,
+      title: raw?.title ?? "",
+      description: raw?.description ?? "",
+      state: raw?.state,
+      author: raw?.author ? mapCloudUser(raw.author) : undefined,
+      source: cloudRef(raw?.source),
+      destination: cloudRef(raw?.destination),
+      reviewers,
+      participants,
+      createdAt: raw?.created_on,
+      updatedAt: raw?.updated_on,
+      url: raw?.links?.html?.href,
+      commentCount: raw?.comment_count,
+      // Cloud's task_count only counts unresolved tasks
+      openTaskCount: raw?.task_count ?? 0,
+    },
+    raw
+  );
+}
+
+export function mapCloudBranch(raw: any): Branch {
+  return withRaw(
+    { name: raw?.name ?? "", latestCommit: raw?.target?.hash },
+    raw
+  );
+}
+
+export function mapCloudBranchRestriction(raw: any): BranchRestriction {
+  return withRaw(
+    {
+      id: raw?.id,
+      kind: raw?.kind ?? "",
+      pattern:
+        raw?.branch_match_kind === "branching_model"
+          ? `branching_model:${raw?.branch_type}`
+          : (raw?.pattern ?? ""),
+      value: raw?.value ?? undefined,
+      users: (raw?.users ?? []).map((u: any) => u.uuid),
+      groups: (raw?.groups ?? []).map((g: any) => g.slug ?? g.name),
+    },
+    raw
+  );
+}
+
+export function mapCloudTag(raw: any): Tag {
+  return withRaw(
+    {
+      name: raw?.name ?? "",
+      target: raw?.target?.hash,
+      message: raw?.message ?? undefined,
+      date: raw?.date ?? raw?.target?.date,
+    },
+    raw
+  );
+}
+
+export function mapCloudCommit(raw: any): Commit {
+  // author.raw is "Name <email>"; author.user is only set for known accounts
+  const match = /^(.*?)\s*<([^>]*)>\s*$/.exec(raw?.author?.raw ?? "");
+  return withRaw(
+    {
+      hash: raw?.hash ?? "",
+      displayHash: (raw?.hash ?? "").slice(0, 12),
+      message: raw?.message ?? "",
+      author: {
+        name: match ? match[1] : (raw?.author?.raw ?? ""),
+        email: match ? match[2] : undefined,
+        user: raw?.author?.user ? mapCloudUser(raw.author.user) : undefined,
+      },
+      date: raw?.date,
+      parents: (raw?.parents ?? []).map((p: any) => p.hash),
+      url: raw?.links?.html?.href,
+    },
+    raw
+  );
+}
+
+export function mapCloudComment(raw: any): Comment {
+  return withRaw(
+    {
+      id: raw?.id,
+      text: raw?.content?.raw ?? "",
+      author: raw?.user ? mapCloudUser(raw.user) : undefined,
+      createdAt: raw?.created_on,
+      updatedAt: raw?.updated_on,
+      parentId: raw?.parent?.id,
+      inline: raw?.inline
+        ? {
+            path: raw.inline.path,
+            from: raw.inline.from ?? undefined,
+            to: raw.inline.to ?? undefined,
+          }
+        : undefined,
+      deleted: Boolean(raw?.deleted),
+      resolved: raw?.parent ? undefined : Boolean(raw?.resolution),
+      url: raw?.links?.html?.href,
+    },
+    raw
+  );
+}
+
+export function mapCloudBuildStatus(raw: any): BuildStatus {
+  return withRaw(
+    {
+      key: raw?.key ?? "",
+      state: raw?.state,
+      name: raw?.name,
+      url: raw?.url,
+      description: raw?.description,
+      updatedAt: raw?.updated_on ?? raw?.created_on,
+    },
+    raw
+  );
+}
+
+export function mapCloudTreeEntry(raw: any, depth: number): TreeEntry {
+  const path: string = raw?.path ?? "";
+  const attributes: string[] = raw?.attributes ?? [];
+  let type: TreeEntryType = "file";
+  if (raw?.type === "commit_directory") type = "directory";
+  else if (attributes.includes("subrepository")) type = "submodule";
+  else if (attributes.includes("link")) type = "link";
+  return withRaw(
+    {
+      path,
+      name: path.slice(path.lastIndexOf("/") + 1),
+      type,
+      size: type === "file" ? raw?.size : undefined,
+      depth,
+    },
+    raw
+  );
+}
+
+export function mapCloudCodeSearchResult(raw: any): CodeSearchResult {
+  const lines: CodeSearchLine[] = (raw?.content_matches ?? []).flatMap(
+    (m: any) =>
+      (m?.lines ?? []).map((l: any) => ({
+        line: l?.line,
+        text: (l?.segments ?? []).map((s: any) => s?.text ?? "").join(""),
+        match: (l?.segments ?? []).some((s: any) => s?.match),
+      }))
+  );
+  return withRaw(
+    {
+      repository: raw?.file?.commit?.repository?.full_name ?? "",
+      path: raw?.file?.path ?? "",
+      matchCount: raw?.content_match_count ?? 0,
+      lines,
+    },
+    raw
+  );
+}
+
+export function mapCloudIssue(raw: any): Issue {
+  return withRaw(
+    {
+      id: raw?.id,
+      title: raw?.title ?? "",
+      content: raw?.content?.raw ?? "",
+      state: raw?.state,
+      kind: raw?.kind,
+      priority: raw?.priority,
+      reporter: raw?.reporter ? mapCloudUser(raw.reporter) : undefined,
+      assignee: raw?.assignee ? mapCloudUser(raw.assignee) : undefined,
+      component: raw?.component?.name,
+      milestone: raw?.milestone?.name,
+      version: raw?.version?.name,
+      votes: raw?.votes,
+      createdAt: raw?.created_on,
+      updatedAt: raw?.updated_on,
+      url: raw?.links?.html?.href,
+    },
+    raw
+  );
+}
+
+export function mapCloudWebhook(raw: any): Webhook {
+  return withRaw(
+    {
+      id: raw?.uuid ?? "",
+      name: raw?.description || undefined,
+      url: raw?.url ?? "",
+      active: Boolean(raw?.active),
+      events: raw?.events ?? [],
+      secretSet: Boolean(raw?.secret_set),
+      createdAt: raw?.created_at,
+    },
+    raw
+  );
+}
+
+export function mapCloudTask(raw: any): PullRequestTask {
+  return withRaw(
+    {
+      id: raw?.id,
+      text: raw?.content?.raw ?? "",
+      state: raw?.state === "RESOLVED" ? "RESOLVED" : "OPEN",
+      author: raw?.creator ? mapCloudUser(raw.creator) : undefined,
+      commentId: raw?.comment?.id,
+      createdAt: raw?.created_on,
+      updatedAt: raw?.updated_on,
+      resolvedAt: raw?.resolved_on ?? undefined,
+      resolvedBy: raw?.resolved_by ? mapCloudUser(raw.resolved_by) : undefined,
+    },
+    raw
+  );
+}
+
+export function mapCloudEnvironment(raw: any): Environment {
+  return withRaw(
+    {
+      uuid: raw?.uuid ?? "",
+      name: raw?.name ?? "",
+      slug: raw?.slug,
+      type: raw?.environment_type?.name,
+      locked: raw?.lock?.name === "LOCKED",
+    },
+    raw
+  );
+}
+
+export function mapCloudDeployment(raw: any): Deployment {
+  const commit = raw?.release?.commit?.hash ?? raw?.deployable?.commit?.hash;
+  return withRaw(
+    {
+      uuid: raw?.uuid ?? "",
+      environmentUuid: raw?.environment?.uuid ?? "",
+      state: raw?.state?.name ?? "UNKNOWN",
+      status: raw?.state?.status?.name,
+      release: raw?.release?.name,
+      commit,
+      pipelineUuid: raw?.deployable?.pipeline?.uuid,
+      startedAt: raw?.state?.started_on,
+      completedAt: raw?.state?.completed_on,
+      url: raw?.state?.url ?? raw?.release?.url,
+    },
+    raw
+  );
+}
+
+// Bitbucket never returns secured values, but drop the field from both the
+// model and the stored payload so raw output can't expose one either
+export function mapCloudVariable(raw: any): PipelineVariable {
+  const { value: _value, ...stored } = raw ?? {};
+  return withRaw(
+    {
+      uuid: raw?.uuid ?? "",
+      key: raw?.key ?? "",
+      secured: Boolean(raw?.secured),
+    },
+    stored
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Bitbucket Server / Data Center (REST API 1.0)
+// ---------------------------------------------------------------------------
+
+export function mapServerUser(raw: any): User {
+  return withRaw(
+    {
+      id: raw?.slug ?? raw?.name ?? "",
+      username: raw?.name,
+      displayName: raw?.displayName ?? raw?.name ?? "",
+      email: raw?.emailAddress,
+    },
+    raw
+  );
+}
+
+export function mapServerParticipant(raw: any): Participant {
+  return withRaw(
+    {
+      user: mapServerUser(raw?.user),
+      role: raw?.role ?? "PARTICIPANT",
+      approved: Boolean(raw?.approved),
+      status: raw?.status ?? (raw?.approved ? "APPROVED" : "UNAPPROVED"),
+    },
+    raw
+  );
+}
+
+function serverRef(raw: any): PullRequestRef {
+  const repo = raw?.repository;
+  return {
+    branch: raw?.displayId ?? "",
+    commit: raw?.latestCommit,
+    repository:
+      repo?.project?.key && repo?.slug
+        ? `${repo.project.key}/${repo.slug}`
+        : undefined,
+  };
+}
+
+export function mapServerPullRequest(raw: any): PullRequest {
+  return withRaw(
+    {
+      id: raw?.id,
+      title: raw?.title ?? "",
+      description: raw?.description ?? "",
+      state: raw?.state,
+      author: raw?.author?.user ? mapServerUser(raw.author.user) : undefined,
+      source: serverRef(raw?.fromRef),
+      destination: serverRef(raw?.toRef),
+      reviewers: (raw?.reviewers ?? []).map(mapServerParticipant),
+      participants: (raw?.participants ?? []).map(mapServerParticipant),
+      createdAt: isoDate(raw?.createdDate),
+      updatedAt: isoDate(raw?.updatedDate),
+      url: raw?.links?.self?.[0]?.href,
+      version: raw?.version,
+      commentCount: raw?.properties?.commentCount,
+      openTaskCount: raw?.properties?.openTaskCount ?? 0,
+    },
+    raw
+  );
+}
+
+export function mapServerBranch(raw: any): Branch {
+  return withRaw(
+    {
+      name: raw?.displayId ?? "",
+      latestCommit: raw?.latestCommit,
+      isDefault: raw?.isDefault,
+    },
+    raw
+  );
+}
+
+export function mapServerBranchRestriction(raw: any): BranchRestriction {
+  return withRaw(
+    {
+      id: raw?.id,
+      kind: raw?.type ?? "",
+      pattern: raw?.matcher?.displayId ?? raw?.matcher?.id ?? "",
+      users: (raw?.users ?? []).map((u: any) => u.name ?? u.slug),
+      groups: raw?.groups ?? [],
+    },
+    raw
+  );
+}
+
+export function mapServerTag(raw: any): Tag {
+  return withRaw(
+    {
+      name: raw?.displayId ?? "",
+      target: raw?.latestCommit,
+      message: raw?.message,
+    },
+    raw
+  );
+}
+
+export function mapServerCommit(raw: any): Commit {
+  return withRaw(
+    {
+      hash: raw?.id ?? "",
+      displayHash: raw?.displayId ?? (raw?.id ?? "").slice(0, 12),
+      message: raw?.message ?? "",
+      author: {
+        name: raw?.author?.displayName ?? raw?.author?.name ?? "",
+        email: raw?.author?.emailAddress,
+        user: raw?.author?.slug ? mapServerUser(raw.author) : undefined,
+      },
+      date: isoDate(raw?.authorTimestamp),
+      parents: (raw?.parents ?? []).map((p: any) => p.id),
+    },
+    raw
+  );
+}
+
+export function mapServerComment(
+  raw: any,
+  anchor?: any,
+  parentId?: number
+): Comment {
+  const a = anchor ?? raw?.anchor;
+  return withRaw(
+    {
+      id: raw?.id,
+      text: raw?.text ?? "",
+      author: raw?.author ? mapServerUser(raw.author) : undefined,
+      createdAt: isoDate(raw?.createdDate),
+      updatedAt: isoDate(raw?.updatedDate),
+      parentId: parentId ?? raw?.parent?.id,
+      inline: a?.path
+        ? a.fileType === "FROM"
+          ? { path: a.path, from: a.line }
+          : { path: a.path, to: a.line }
+        : undefined,
+      deleted: false,
+      resolved:
+        (parentId ?? raw?.parent?.id)
+          ? undefined
+          : (raw?.threadResolved ?? raw?.state === "RESOLVED"),
+      version: raw?.version,
+    },
+    raw
+  );
+}
+
+/**
+ * Server nests replies inside their parent comment; flatten the tree so each
+ * reply carries its parentId like Cloud comments do. Each raw payload keeps
+ * only its own comment, not the replies already listed after it.
+ */
+export function flattenServerComments(
+  raw: any,
+  anchor?: any,
+  parentId?: number
+): Comment[] {
+  const { comments, ...own } = raw ?? {};
+  return [
+    mapServerComment(own, anchor, parentId),
+    ...(comments ?? []).flatMap((c: any) =>
+      flattenServerComments(c, undefined, raw?.id)
+    ),
+  ];
+}
+
+export function mapServerBuildStatus(raw: any): BuildStatus {
+  return withRaw(
+    {
+      key: raw?.key ?? "",
+      // Newer Server versions report CANCELLED where Cloud says STOPPED
+      state: raw?.state === "CANCELLED" ? "STOPPED" : raw?.state,
+      name: raw?.name,
+      url: raw?.url,
+      description: raw?.description,
+      updatedAt: isoDate(raw?.dateAdded),
+    },
+    raw
+  );
+}
+
+// Server browse children carry paths relative to the browsed directory
+export function mapServerTreeEntry(
+  raw: any,
+  parent: string,
+  depth: number
+): TreeEntry {
+  const relative: string = raw?.path?.toString ?? "";
+  const types: Record<string, TreeEntryType> = {
+    DIRECTORY: "directory",
+    SUBMODULE: "submodule",
+  };
+  const type = types[raw?.type] ?? "file";
+  return withRaw(
+    {
+      path: parent ? `${parent}/${relative}` : relative,
+      name: raw?.path?.name ?? relative.slice(relative.lastIndexOf("/") + 1),
+      type,
+      size: type === "file" ? raw?.size : undefined,
+      depth,
+    },
+    raw
+  );
+}
+
+// Server diffs are JSON: diffs -> hunks -> segments of same-typed lines
+export function mapServerDiff(raw: any): DiffFile[] {
+  return (raw?.diffs ?? []).map((diff: any): DiffFile => {
+    const oldPath: string | undefined = diff?.source?.toString;
+    const newPath: string | undefined = diff?.destination?.toString;
+    const hunks: DiffHunk[] = (diff?.hunks ?? []).map((hunk: any) => ({
+      oldStart: hunk?.sourceLine ?? 0,
+      oldLines: hunk?.sourceSpan ?? 0,
+      newStart: hunk?.destinationLine ?? 0,
+      newLines: hunk?.destinationSpan ?? 0,
+      header: hunk?.context || undefined,
+      lines: (hunk?.segments ?? []).flatMap((segment: any) =>
+        (segment?.lines ?? []).map((line: any): DiffLine => ({
+          type: segment.type,
+          text: line?.line ?? "",
+          oldLine: segment.type === "ADDED" ? undefined : line?.source,
+          newLine: segment.type === "REMOVED" ? undefined : line?.destination,
+        }))
+      ),
+    }));
+    const lines = hunks.flatMap((h) => h.lines);
+    return {
+      path: newPath ?? oldPath ?? "",
+      oldPath: oldPath && newPath && oldPath !== newPath ? oldPath : undefined,
+      status: !oldPath
+        ? "ADDED"
+        : !newPath
+          ? "DELETED"
+          : oldPath !== newPath
+            ? "RENAMED"
+            : "MODIFIED",
+      binary: Boolean(diff?.binary),
+      additions: lines.filter((l) => l.type === "ADDED").length,
+      deletions: lines.filter((l) => l.type === "REMOVED").length,
+      hunks,
+    };
+  });
+}
+
+// Server blame pages carry the page's lines plus blame ranges that span
+// several consecutive lines
+export function mapServerBlameLines(raw: any): BlameLine[] {
+  const start = raw?.start ?? 0;
+  const texts: string[] = (raw?.lines ?? []).map((l: any) => l?.text ?? "");
+  const result: BlameLine[] = [];
+  for (const range of raw?.blame ?? []) {
+    for (let n = 0; n < (range?.spannedLines ?? 1); n++) {
+      const line = range.lineNumber + n;
+      const text = texts[line - 1 - start];
+      if (text === undefined) continue;
+      result.push({
+        line,
+        text,
+        hash: range.commitHash ?? "",
+        author: range.author?.displayName ?? range.author?.name ?? "",
+        date: isoDate(range.authorTimestamp),
+      });
+    }
+  }
+  return result;
+}
+
+// Search hit text is HTML with matches wrapped in <em>
+function stripSearchMarkup(html: string): string {
+  return html
+    .replace(/<\/?em>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&#x2F;/g, "/")
+    .replace(/&amp;/g, "&");
+}
+
+export function mapServerCodeSearchResult(raw: any): CodeSearchResult {
+  const lines: CodeSearchLine[] = (raw?.hitContexts ?? []).flatMap(
+    (context: any[]) =>
+      (context ?? []).map((l: any) => ({
+        line: l?.line,
+        text: stripSearchMarkup(l?.text ?? ""),
+        match: /<em>/.test(l?.text ?? ""),
+      }))
+  );
+  const project = raw?.repository?.project?.key;
+  const slug = raw?.repository?.slug;
+  return withRaw(
+    {
+      repository: project && slug ? `${project}/${slug}` : (slug ?? ""),
+      path: raw?.file ?? "",
+      matchCount: raw?.hitCount ?? lines.filter((l) => l.match).length,
+      lines,
+    },
+    raw
+  );
+}
+
+export function mapServerWebhook(raw: any): Webhook {
+  // Server echoes the secret back; keep it out of raw output too
+  const redacted = raw?.configuration?.secret
+    ? { ...raw, configuration: { ...raw.configuration, secret: "********" } }
+    : raw;
+  return withRaw(
+    {
+      id: String(raw?.id ?? ""),
+      name: raw?.name || undefined,
+      url: raw?.url ?? "",
+      active: Boolean(raw?.active),
+      events: raw?.events ?? [],
+      secretSet: Boolean(raw?.configuration?.secret),
+      createdAt: isoDate(raw?.createdDate),
+      updatedAt: isoDate(raw?.updatedDate),
+    },
+    redacted
+  );
+}
+
+// Server 7.2+ models tasks as comments with severity BLOCKER
+export function mapServerTask(raw: any): PullRequestTask {
+  return withRaw(
+    {
+      id: raw?.id,
+      text: raw?.text ?? "",
+      state: raw?.state === "RESOLVED" ? "RESOLVED" : "OPEN",
+      author: raw?.author ? mapServerUser(raw.author) : undefined,
+      commentId: raw?.parent?.id,
+      createdAt: isoDate(raw?.createdDate),
+      updatedAt: isoDate(raw?.updatedDate),
+      resolvedAt: isoDate(raw?.resolvedDate),
+      resolvedBy: raw?.resolver ? mapServerUser(raw.resolver) : undefined,
+      version: raw?.version,
+    },
+    raw
+  );
+}
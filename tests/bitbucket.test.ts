@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import nock from 'nock';
 import { BitbucketClient } from '../src/bitbucket.js';
+import { parseUnifiedDiff } from '../src/diff.js';
+import { rawPayload } from '../src/models.js';
 
 describe('BitbucketClient', () => {
   const baseUrl = 'https://api.bitbucket.org/2.0';
@@ -32,4 +34,1899 @@ describe('BitbucketClient', () => {
     const r = await client.listPullRequests('ws', 'repo', 'OPEN');
     expect((r as any).values).toBeDefined();
   });
+
+  it('follows Cloud next links until the last page', async () => {
+    nock(baseUrl)
+      .get('/repositories/ws/repo/refs/branches')
+      .reply(200, {
+        values: [{ name: 'a' }],
+        next: `${baseUrl}/repositories/ws/repo/refs/branches?page=2`,
+      });
+    nock(baseUrl)
+      .get('/repositories/ws/repo/refs/branches')
+      .query({ page: '2' })
+      .reply(200, { values: [{ name: 'b' }] });
+
+    const r = await client.listBranches('ws', 'repo');
+    expect(r.values.map((b: any) => b.name)).toEqual(['a', 'b']);
+    expect(r.nextCursor).toBeUndefined();
+  });
+
+  it('stops at limit and resumes from the returned cursor', async () => {
+    nock(baseUrl)
+      .get('/repositories/ws/repo/commits')
+      .query({ pagelen: '2' })
+      .reply(200, {
+        values: [{ hash: '1' }, { hash: '2' }],
+        next: `${baseUrl}/repositories/ws/repo/commits?pagelen=2&page=2`,
+      });
+    nock(baseUrl)
+      .get('/repositories/ws/repo/commits')
+      .query({ pagelen: '2', page: '2' })
+      .twice()
+      .reply(200, { values: [{ hash: '3' }, { hash: '4' }] });
+
+    const first = await client.listCommits('ws', 'repo', undefined, { limit: 2 });
+    expect(first.values.map((c: any) => c.hash)).toEqual(['1', '2']);
+
+    // A limit smaller than the page keeps the rest of the page for the next call
+    const second = await client.listCommits('ws', 'repo', undefined, {
+      limit: 1,
+      cursor: first.nextCursor,
+    });
+    expect(second.values.map((c: any) => c.hash)).toEqual(['3']);
+
+    const third = await client.listCommits('ws', 'repo', undefined, {
+      cursor: second.nextCursor,
+    });
+    expect(third.values.map((c: any) => c.hash)).toEqual(['4']);
+    expect(third.nextCursor).toBeUndefined();
+  });
+
+  it('follows Server nextPageStart', async () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+    nock(serverUrl)
+      .get('/projects/PROJ/repos')
+      .reply(200, { values: [{ slug: 'a' }], isLastPage: false, nextPageStart: 1 });
+    nock(serverUrl)
+      .get('/projects/PROJ/repos')
+      .query({ start: '1' })
+      .reply(200, { values: [{ slug: 'b' }], isLastPage: true });
+
+    const r = await server.listRepositories('PROJ');
+    expect(r.values.map((x: any) => x.slug)).toEqual(['a', 'b']);
+  });
+
+  it('rejects a cursor issued for another listing', async () => {
+    nock(baseUrl)
+      .get('/repositories/ws/a/pullrequests')
+      .query(true)
+      .reply(200, {
+        values: [{ id: 1 }, { id: 2 }],
+        next: `${baseUrl}/repositories/ws/a/pullrequests?state=OPEN&pagelen=1&page=2`,
+      });
+    const prs = await client.listPullRequests('ws', 'a', 'OPEN', { limit: 1 });
+
+    await expect(client.listBranches('ws', 'b', { cursor: prs.nextCursor })).rejects.toMatchObject({
+      errorType: 'VALIDATION_ERROR',
+    });
+    await expect(client.listPullRequests('ws', 'a', 'MERGED', { cursor: prs.nextCursor })).rejects.toMatchObject({
+      errorType: 'VALIDATION_ERROR',
+    });
+    const handWritten = Buffer.from(JSON.stringify({ path: '/user', skip: 0 })).toString('base64url');
+    await expect(client.listWorkspaces({ cursor: handWritten })).rejects.toMatchObject({
+      errorType: 'VALIDATION_ERROR',
+    });
+  });
+
+  it('rejects a malformed cursor', async () => {
+    await expect(
+      client.listWorkspaces({ cursor: 'not-a-cursor' })
+    ).rejects.toMatchObject({ errorType: 'VALIDATION_ERROR' });
+  });
+
+  describe('retries', () => {
+    const retrying = new BitbucketClient({
+      email: 'user@example.com',
+      token: 'apitoken',
+      baseUrl,
+      retry: { maxAttempts: 3, baseDelayMs: 0 },
+    });
+
+    it('retries idempotent requests on transient server errors', async () => {
+      nock(baseUrl).get('/repositories/ws/repo').reply(502);
+      nock(baseUrl).get('/repositories/ws/repo').reply(200, { slug: 'repo' });
+
+      const r = await retrying.getRepo('ws', 'repo');
+      expect((r as any).slug).toBe('repo');
+    });
+
+    it('does not repeat a POST that may have reached the server', async () => {
+      const scope = nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests/1/merge')
+        .reply(500);
+
+      await expect(retrying.mergePullRequest('ws', 'repo', 1)).rejects.toMatchObject({
+        errorType: 'SERVER_ERROR',
+      });
+      expect(scope.isDone()).toBe(true);
+    });
+
+    it('retries a rate-limited POST and honours Retry-After', async () => {
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests/1/approve')
+        .reply(429, {}, { 'Retry-After': '0' });
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests/1/approve')
+        .reply(200, { approved: true });
+
+      const r = await retrying.approvePullRequest('ws', 'repo', 1);
+      expect((r as any).approved).toBe(true);
+    });
+
+    it('does not retry when the rate limit resets after maxDelayMs', async () => {
+      const scope = nock(baseUrl)
+        .get('/repositories/ws/repo')
+        .reply(429, {}, { 'Retry-After': '300' });
+
+      await expect(retrying.getRepo('ws', 'repo')).rejects.toMatchObject({
+        errorType: 'RATE_LIMIT_ERROR',
+        retryAfterMs: 300000,
+      });
+      expect(scope.isDone()).toBe(true);
+    });
+
+    it('gives up after maxAttempts', async () => {
+      nock(baseUrl).get('/repositories/ws/repo').times(3).reply(503);
+
+      await expect(retrying.getRepo('ws', 'repo')).rejects.toMatchObject({
+        errorType: 'SERVER_ERROR',
+        isRetryable: true,
+      });
+    });
+  });
+
+  describe('Server pull request versions', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const prPath = '/projects/PROJ/repos/repo/pull-requests/5';
+    const outOfDate = {
+      errors: [
+        {
+          message: 'You are attempting to modify a pull request based on out-of-date information.',
+          exceptionName: 'com.atlassian.bitbucket.pull.PullRequestOutOfDateException',
+        },
+      ],
+    };
+    const server = new BitbucketClient({
+      email: 'u',
+      token: 't',
+      baseUrl: serverUrl,
+      retry: { maxAttempts: 1 },
+    });
+
+    it('merges with the current version', async () => {
+      nock(serverUrl).get(prPath).reply(200, { id: 5, version: 3 });
+      nock(serverUrl)
+        .post(`${prPath}/merge`)
+        .query({ version: '3' })
+        .reply(200, { id: 5, version: 4, state: 'MERGED' });
+
+      const pr = await server.mergePullRequest('PROJ', 'repo', 5);
+      expect(pr.state).toBe('MERGED');
+    });
+
+    it('keeps the description on a title-only update', async () => {
+      nock(serverUrl).get(prPath).reply(200, { id: 5, version: 3, title: 'Old', description: 'Keep me' });
+      let body: any;
+      nock(serverUrl)
+        .put(prPath, (b) => {
+          body = b;
+          return true;
+        })
+        .reply(200, { id: 5, version: 4, title: 'New', description: 'Keep me' });
+
+      await server.updatePullRequest('PROJ', 'repo', 5, { title: 'New' });
+      expect(body).toMatchObject({ version: 3, title: 'New', description: 'Keep me' });
+    });
+
+    it('clears the description when given an empty string', async () => {
+      nock(serverUrl).get(prPath).reply(200, { id: 5, version: 3, title: 'T', description: 'Old' });
+      let body: any;
+      nock(serverUrl)
+        .put(prPath, (b) => {
+          body = b;
+          return true;
+        })
+        .reply(200, { id: 5, version: 4, title: 'T', description: '' });
+
+      await server.updatePullRequest('PROJ', 'repo', 5, { description: '' });
+      expect(body.description).toBe('');
+    });
+
+    it('re-reads the version once after a mismatch', async () => {
+      nock(serverUrl).get(prPath).reply(200, { id: 5, version: 3, title: 'T' });
+      nock(serverUrl).put(prPath, (b) => b.version === 3).reply(409, outOfDate);
+      nock(serverUrl).get(prPath).reply(200, { id: 5, version: 4, title: 'T' });
+      nock(serverUrl)
+        .put(prPath, (b) => b.version === 4 && b.title === 'T')
+        .reply(200, { id: 5, version: 5, description: 'new' });
+
+      const pr = await server.updatePullRequest('PROJ', 'repo', 5, { description: 'new' });
+      expect(pr.version).toBe(5);
+    });
+
+    it('reports CONFLICT_ERROR when the version keeps changing', async () => {
+      nock(serverUrl).get(prPath).twice().reply(200, { id: 5, version: 3 });
+      nock(serverUrl).post(`${prPath}/decline`).query(true).twice().reply(409, outOfDate);
+
+      await expect(server.declinePullRequest('PROJ', 'repo', 5)).rejects.toMatchObject({
+        errorType: 'CONFLICT_ERROR',
+        message: 'Pull request was modified while this change was applied',
+      });
+    });
+
+    it('does not retry other conflicts that mention a version', async () => {
+      nock(serverUrl).get(prPath).reply(200, { id: 5, version: 3 });
+      const merge = nock(serverUrl)
+        .post(`${prPath}/merge`)
+        .query(true)
+        .reply(409, {
+          errors: [
+            {
+              message: 'Merge check failed: requires version 2 of the release notes',
+              exceptionName: 'com.atlassian.bitbucket.pull.PullRequestMergeVetoedException',
+            },
+          ],
+        });
+
+      await expect(server.mergePullRequest('PROJ', 'repo', 5)).rejects.toMatchObject({ statusCode: 409 });
+      expect(merge.isDone()).toBe(true);
+      expect(nock.pendingMocks()).toEqual([]);
+    });
+  });
+
+  describe('pipelines', () => {
+    it('triggers a custom pipeline with variables', async () => {
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pipelines/', (b) =>
+          b.target.ref_name === 'main' &&
+          b.target.selector.pattern === 'deploy' &&
+          b.variables[0].key === 'ENV'
+        )
+        .reply(201, { uuid: '{p1}', build_number: 12 });
+
+      const r = await client.triggerPipeline('ws', 'repo', {
+        branch: 'main',
+        customPipeline: 'deploy',
+        variables: [{ key: 'ENV', value: 'staging' }],
+      });
+      expect((r as any).build_number).toBe(12);
+    });
+
+    it('returns only the tail of a step log', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pipelines/12/steps/%7Bs1%7D/log')
+        .reply(200, 'one\ntwo\nthree', { 'Content-Type': 'application/octet-stream' });
+
+      const r = await client.getPipelineStepLog('ws', 'repo', '12', '{s1}', 2);
+      expect(r).toEqual({ totalLines: 3, truncated: true, log: 'two\nthree' });
+    });
+
+    it('rejects a tailLines that is not a positive integer', async () => {
+      for (const tailLines of [0, -3, 2.5]) {
+        await expect(client.getPipelineStepLog('ws', 'repo', '12', '{s1}', tailLines)).rejects.toMatchObject({
+          errorType: 'VALIDATION_ERROR',
+        });
+      }
+    });
+
+    it('filters by the full hash of a PR head commit', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/7')
+        .reply(200, { id: 7, source: { branch: { name: 'f' }, commit: { hash: 'abc123def456' } } });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/commit/abc123def456')
+        .reply(200, { hash: 'abc123def4567890abc123def4567890abc12345' });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pipelines/')
+        .query({ sort: '-created_on', 'target.commit.hash': 'abc123def4567890abc123def4567890abc12345' })
+        .reply(200, { values: [{ uuid: '{p1}' }] });
+
+      const r = await client.listPipelines('ws', 'repo', { prId: 7 });
+      expect(r.values).toHaveLength(1);
+    });
+
+    it('rejects a PR without a source commit instead of listing every pipeline', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/7')
+        .reply(200, { id: 7, source: { branch: { name: 'gone' } } });
+
+      await expect(client.listPipelines('ws', 'repo', { prId: 7 })).rejects.toMatchObject({
+        errorType: 'VALIDATION_ERROR',
+      });
+    });
+
+    it('fails with a capability error on Server', async () => {
+      const server = new BitbucketClient({
+        email: 'u',
+        token: 't',
+        baseUrl: 'https://bitbucket.example.com/rest/api/1.0',
+      });
+      await expect(server.listPipelines('PROJ', 'repo')).rejects.toMatchObject({
+        errorType: 'CAPABILITY_ERROR',
+      });
+    });
+  });
+
+  describe('build statuses', () => {
+    it('summarizes the latest status per build key for a PR', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/3')
+        .reply(200, { id: 3, source: { branch: { name: 'f' }, commit: { hash: 'abc' } } });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/commit/abc/statuses')
+        .reply(200, {
+          values: [
+            { key: 'ci', state: 'FAILED', updated_on: '2024-01-01T00:00:00Z' },
+            { key: 'ci', state: 'SUCCESSFUL', updated_on: '2024-01-02T00:00:00Z' },
+            { key: 'lint', state: 'INPROGRESS', updated_on: '2024-01-02T00:00:00Z' },
+          ],
+        });
+
+      const summary = await client.getPullRequestBuildSummary('ws', 'repo', 3);
+      expect(summary.commit).toBe('abc');
+      expect(summary.overall).toBe('INPROGRESS');
+      expect(summary.counts).toMatchObject({ SUCCESSFUL: 1, INPROGRESS: 1, FAILED: 0 });
+    });
+
+    it('posts Server statuses to the build-status API', async () => {
+      const server = new BitbucketClient({
+        email: 'u',
+        token: 't',
+        baseUrl: 'https://bitbucket.example.com/rest/api/1.0',
+      });
+      nock('https://bitbucket.example.com')
+        .post('/rest/build-status/1.0/commits/abc', (b) => b.key === 'ci' && b.state === 'SUCCESSFUL')
+        .reply(204);
+
+      const s = await server.createCommitStatus('PROJ', 'repo', 'abc', {
+        key: 'ci',
+        state: 'SUCCESSFUL',
+        url: 'https://ci.example.com/1',
+      });
+      expect(s.state).toBe('SUCCESSFUL');
+    });
+
+    it('reports a stopped build as failed on Server', async () => {
+      const server = new BitbucketClient({
+        email: 'u',
+        token: 't',
+        baseUrl: 'https://bitbucket.example.com/rest/api/1.0',
+      });
+      nock('https://bitbucket.example.com')
+        .post('/rest/build-status/1.0/commits/abc', (b) => b.state === 'FAILED')
+        .reply(204);
+
+      const s = await server.createCommitStatus('PROJ', 'repo', 'abc', {
+        key: 'ci',
+        state: 'STOPPED',
+        url: 'https://ci.example.com/1',
+      });
+      expect(s.state).toBe('FAILED');
+    });
+  });
+
+  describe('tags', () => {
+    it('tags the head of a branch on Cloud', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/refs/branches/main')
+        .reply(200, { name: 'main', target: { hash: 'abc123' } });
+      nock(baseUrl)
+        .post('/repositories/ws/repo/refs/tags', { name: 'v1.0.0', target: { hash: 'abc123' } })
+        .reply(201, { name: 'v1.0.0', target: { hash: 'abc123' } });
+
+      const tag = await client.createTag('ws', 'repo', { name: 'v1.0.0', branch: 'main' });
+      expect(tag).toMatchObject({ name: 'v1.0.0', target: 'abc123' });
+    });
+
+    it('creates annotated Server tags through the git API', async () => {
+      const server = new BitbucketClient({
+        email: 'u',
+        token: 't',
+        baseUrl: 'https://bitbucket.example.com/rest/api/1.0',
+      });
+      nock('https://bitbucket.example.com')
+        .post('/rest/git/1.0/projects/PROJ/repos/repo/tags', {
+          name: 'v2',
+          startPoint: 'def456',
+          message: 'Release 2',
+        })
+        .reply(200, { displayId: 'v2', latestCommit: 'def456', message: 'Release 2' });
+
+      const tag = await server.createTag('PROJ', 'repo', {
+        name: 'v2',
+        hash: 'def456',
+        message: 'Release 2',
+      });
+      expect(tag).toMatchObject({ name: 'v2', target: 'def456', message: 'Release 2' });
+    });
+
+    it('requires exactly one of hash or branch', async () => {
+      await expect(client.createTag('ws', 'repo', { name: 'v1' })).rejects.toMatchObject({
+        errorType: 'VALIDATION_ERROR',
+      });
+    });
+  });
+
+  describe('branch management', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+
+    it('deletes Server branches through branch-utils', async () => {
+      nock('https://bitbucket.example.com')
+        .delete('/rest/branch-utils/1.0/projects/PROJ/repos/repo/branches', {
+          name: 'refs/heads/old',
+          dryRun: false,
+        })
+        .reply(204);
+
+      await expect(server.deleteBranch('PROJ', 'repo', 'old')).resolves.toEqual({
+        deleted: true,
+        name: 'old',
+      });
+    });
+
+    it('creates a Server restriction with a branch matcher', async () => {
+      nock('https://bitbucket.example.com')
+        .post('/rest/branch-permissions/2.0/projects/PROJ/repos/repo/restrictions', (b) =>
+          b.type === 'fast-forward-only' && b.matcher.id === 'refs/heads/main' && b.matcher.type.id === 'BRANCH'
+        )
+        .reply(200, { id: 9, type: 'fast-forward-only', matcher: { displayId: 'main' } });
+
+      const r = await server.createBranchRestriction('PROJ', 'repo', {
+        kind: 'fast-forward-only',
+        pattern: 'main',
+      });
+      expect(r).toMatchObject({ id: 9, kind: 'fast-forward-only', pattern: 'main' });
+    });
+
+    it('reports Server restriction users by name, as create expects', async () => {
+      nock('https://bitbucket.example.com')
+        .post('/rest/branch-permissions/2.0/projects/PROJ/repos/repo/restrictions', (b) =>
+          JSON.stringify(b.users) === JSON.stringify(['John.Smith'])
+        )
+        .reply(200, {
+          id: 10,
+          type: 'read-only',
+          matcher: { displayId: 'main' },
+          users: [{ name: 'John.Smith', slug: 'john.smith' }],
+        });
+
+      const r = await server.createBranchRestriction('PROJ', 'repo', {
+        kind: 'read-only',
+        pattern: 'main',
+        users: ['John.Smith'],
+      });
+      expect(r.users).toEqual(['John.Smith']);
+    });
+
+    it('lists Cloud restrictions', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/branch-restrictions')
+        .reply(200, {
+          values: [
+            { id: 1, kind: 'require_approvals_to_merge', pattern: 'main', value: 2 },
+            { id: 2, kind: 'push', pattern: 'main', users: [{ uuid: '{u1}', nickname: 'ann' }] },
+          ],
+        });
+
+      const r = await client.listBranchRestrictions('ws', 'repo');
+      expect(r.values[0]).toMatchObject({ kind: 'require_approvals_to_merge', value: 2 });
+      // Listed users can be passed straight back to createBranchRestriction
+      expect(r.values[1].users).toEqual(['{u1}']);
+    });
+  });
+
+  describe('commitFiles', () => {
+    it('sends one multipart commit to Cloud and creates the branch', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/refs/branches/main')
+        .reply(200, { name: 'main', target: { hash: 'base1' } });
+      let form = '';
+      nock(baseUrl)
+        .post('/repositories/ws/repo/src', (b) => {
+          form = b;
+          return true;
+        })
+        .reply(201, '', { Location: `${baseUrl}/repositories/ws/repo/commit/0a1b2c3d` });
+
+      const r = await client.commitFiles('ws', 'repo', {
+        branch: 'bump',
+        sourceBranch: 'main',
+        message: 'Bump version',
+        author: 'Bot <bot@example.com>',
+        files: [
+          { path: 'VERSION', content: '1.2.3' },
+          { path: 'old.txt', delete: true },
+        ],
+      });
+
+      expect(r).toEqual({ branch: 'bump', commits: ['0a1b2c3d'] });
+      expect(form).toContain('name="parents"');
+      expect(form).toContain('base1');
+      expect(form).toContain('name="VERSION"');
+      expect(form).toContain('name="files"');
+    });
+
+    it('uses sourceCommitId only for existing files on Server', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const repo = '/projects/PROJ/repos/repo';
+      nock(serverUrl)
+        .get(`${repo}/commits`)
+        .query({ until: 'refs/heads/main', limit: '1' })
+        .reply(200, { values: [{ id: 'head1' }] });
+      nock(serverUrl).get(`${repo}/browse/docs/a.md`).query(true).reply(200, { type: 'FILE' });
+      nock(serverUrl)
+        .put(`${repo}/browse/docs/a.md`, (b) => /sourceCommitId[\s\S]*head1/.test(b))
+        .reply(200, { id: 'c1' });
+      nock(serverUrl).get(`${repo}/browse/new.md`).query(true).reply(404, {});
+      nock(serverUrl)
+        .put(`${repo}/browse/new.md`, (b) => !/sourceCommitId/.test(b))
+        .reply(200, { id: 'c2' });
+
+      const r = await server.commitFiles('PROJ', 'repo', {
+        branch: 'main',
+        message: 'Docs',
+        files: [
+          { path: 'docs/a.md', content: 'x' },
+          { path: 'new.md', content: 'y' },
+        ],
+      });
+      expect(r.commits).toEqual(['c1', 'c2']);
+    });
+
+    it('commits to an empty Server branch without a sourceCommitId', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const repo = '/projects/PROJ/repos/repo';
+      nock(serverUrl)
+        .get(`${repo}/commits`)
+        .query(true)
+        .reply(200, { values: [], isLastPage: true });
+      nock(serverUrl)
+        .put(`${repo}/browse/README.md`, (b) => !/sourceCommitId/.test(b))
+        .reply(200, { id: 'c1' });
+      nock(serverUrl)
+        .get(`${repo}/browse/LICENSE`)
+        .query({ at: 'c1', type: 'true' })
+        .reply(404, {});
+      nock(serverUrl)
+        .put(`${repo}/browse/LICENSE`, (b) => !/sourceCommitId/.test(b))
+        .reply(200, { id: 'c2' });
+
+      const r = await server.commitFiles('PROJ', 'repo', {
+        branch: 'main',
+        message: 'Initial commit',
+        files: [
+          { path: 'README.md', content: 'x' },
+          { path: 'LICENSE', content: 'y' },
+        ],
+      });
+      expect(r.commits).toEqual(['c1', 'c2']);
+    });
+
+    it('reports the Server commits that landed before a failure', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const repo = '/projects/PROJ/repos/repo';
+      nock(serverUrl)
+        .get(`${repo}/commits`)
+        .query(true)
+        .reply(200, { values: [{ id: 'head1' }] });
+      nock(serverUrl).get(`${repo}/browse/a.md`).query(true).reply(404, {});
+      nock(serverUrl).put(`${repo}/browse/a.md`).reply(200, { id: 'c1' });
+      nock(serverUrl).get(`${repo}/browse/b.md`).query(true).reply(404, {});
+      nock(serverUrl).put(`${repo}/browse/b.md`).reply(403, { errors: [{ message: 'Denied' }] });
+
+      await expect(
+        server.commitFiles('PROJ', 'repo', {
+          branch: 'main',
+          message: 'Docs',
+          files: [
+            { path: 'a.md', content: 'x' },
+            { path: 'b.md', content: 'y' },
+          ],
+        })
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        details: { commits: ['c1'], failedPath: 'b.md' },
+      });
+    });
+  });
+
+  describe('listDirectory', () => {
+    it('walks Cloud directories up to maxDepth and filters by glob', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/src/main/')
+        .reply(200, {
+          values: [
+            { type: 'commit_directory', path: 'src' },
+            { type: 'commit_file', path: 'README.md', size: 10 },
+          ],
+        });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/src/main/src/')
+        .reply(200, {
+          values: [
+            { type: 'commit_directory', path: 'src/lib' },
+            { type: 'commit_file', path: 'src/index.ts', size: 42 },
+          ],
+        });
+
+      const r = await client.listDirectory('ws', 'repo', { ref: 'main', maxDepth: 2, glob: '*.ts' });
+      expect(r.truncated).toBe(false);
+      expect(r.entries).toEqual([
+        { path: 'src/index.ts', name: 'index.ts', type: 'file', size: 42, depth: 2 },
+      ]);
+    });
+
+    it('reads Server browse children and stops at the limit', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      nock(serverUrl)
+        .get('/projects/PROJ/repos/repo/browse/docs')
+        .query({ at: 'main' })
+        .reply(200, {
+          children: {
+            values: [
+              { path: { toString: 'guide', name: 'guide' }, type: 'DIRECTORY' },
+              { path: { toString: 'a.md', name: 'a.md' }, type: 'FILE', size: 5 },
+              { path: { toString: 'b.md', name: 'b.md' }, type: 'FILE', size: 6 },
+            ],
+            isLastPage: true,
+          },
+        });
+
+      const r = await server.listDirectory('PROJ', 'repo', { ref: 'main', path: '/docs/', limit: 2 });
+      expect(r.truncated).toBe(true);
+      expect(r.entries.map((e) => [e.path, e.type])).toEqual([
+        ['docs/guide', 'directory'],
+        ['docs/a.md', 'file'],
+      ]);
+    });
+  });
+
+  describe('searchCode', () => {
+    it('searches a Cloud workspace scoped to a repository', async () => {
+      nock(baseUrl)
+        .get('/workspaces/ws/search/code')
+        .query({ search_query: 'legacyAuth repo:payments', pagelen: '10' })
+        .reply(200, {
+          values: [
+            {
+              content_match_count: 1,
+              content_matches: [
+                {
+                  lines: [
+                    { line: 11, segments: [{ text: 'import x' }] },
+                    { line: 12, segments: [{ text: 'return ' }, { text: 'legacyAuth', match: true }, { text: '()' }] },
+                  ],
+                },
+              ],
+              file: { path: 'src/auth.ts', commit: { repository: { full_name: 'ws/payments' } } },
+            },
+          ],
+        });
+
+      const r = await client.searchCode('ws', 'legacyAuth', 'payments', { limit: 10 });
+      expect(r.values).toEqual([
+        {
+          repository: 'ws/payments',
+          path: 'src/auth.ts',
+          matchCount: 1,
+          lines: [
+            { line: 11, text: 'import x', match: false },
+            { line: 12, text: 'return legacyAuth()', match: true },
+          ],
+        },
+      ]);
+    });
+
+    it('posts to Server search and pages with nextStart', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const bodies: any[] = [];
+      nock('https://bitbucket.example.com')
+        .post('/rest/search/latest/search', (b) => {
+          bodies.push(b);
+          return true;
+        })
+        .reply(200, {
+          code: {
+            isLastPage: false,
+            nextStart: 1,
+            values: [
+              {
+                repository: { slug: 'payments', project: { key: 'PAY' } },
+                file: 'src/Auth.java',
+                hitCount: 1,
+                hitContexts: [[{ line: 3, text: 'if (<em>legacyAuth</em>() &amp;&amp; ok)' }]],
+              },
+            ],
+          },
+        })
+        .post('/rest/search/latest/search', (b) => {
+          bodies.push(b);
+          return true;
+        })
+        .reply(200, { code: { isLastPage: true, values: [] } });
+
+      const first = await server.searchCode('PAY', 'legacyAuth', undefined, { limit: 1 });
+      expect(first.values[0]).toMatchObject({
+        repository: 'PAY/payments',
+        lines: [{ line: 3, text: 'if (legacyAuth() && ok)', match: true }],
+      });
+      expect(bodies[0].query).toBe('legacyAuth project:PAY');
+
+      const second = await server.searchCode('PAY', 'legacyAuth', undefined, {
+        limit: 1,
+        cursor: first.nextCursor,
+      });
+      expect(second.values).toEqual([]);
+      expect(second.nextCursor).toBeUndefined();
+      expect(bodies[1].entities.code).toEqual({ start: 1, limit: 1 });
+    });
+
+    it('rejects a Server search cursor from another query', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      nock('https://bitbucket.example.com')
+        .post('/rest/search/latest/search')
+        .reply(200, { code: { isLastPage: false, nextStart: 1, values: [] } });
+
+      const first = await server.searchCode('PAY', 'legacyAuth', undefined, { limit: 1 });
+      await expect(
+        server.searchCode('PAY', 'otherQuery', undefined, { cursor: first.nextCursor })
+      ).rejects.toMatchObject({ errorType: 'VALIDATION_ERROR', message: 'Cursor belongs to a different search' });
+      await expect(
+        server.searchCode('PAY', 'legacyAuth', 'payments', { cursor: first.nextCursor })
+      ).rejects.toMatchObject({ errorType: 'VALIDATION_ERROR' });
+    });
+  });
+
+  describe('issues', () => {
+    it('builds a BBQL query from the filters', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/issues')
+        .query({
+          sort: '-updated_on',
+          q: '(state = "new" OR state = "open") AND (assignee.account_id = "abc" OR assignee.nickname = "abc") AND kind = "bug"',
+        })
+        .reply(200, {
+          values: [{ id: 4, title: 'Broken', state: 'open', kind: 'bug', priority: 'major', content: { raw: 'x' } }],
+        });
+
+      const r = await client.listIssues('ws', 'repo', { state: ['new', 'open'], assignee: 'abc', kind: 'bug' });
+      expect(r.values[0]).toMatchObject({ id: 4, title: 'Broken', state: 'open', content: 'x' });
+    });
+
+    it('changes state through the changes API and returns the updated issue', async () => {
+      let change: any;
+      nock(baseUrl)
+        .post('/repositories/ws/repo/issues/4/changes', (b) => {
+          change = b;
+          return true;
+        })
+        .reply(201, {});
+      nock(baseUrl)
+        .get('/repositories/ws/repo/issues/4')
+        .reply(200, { id: 4, title: 'Broken', state: 'resolved' });
+
+      const issue = await client.setIssueState('ws', 'repo', 4, 'resolved', 'Fixed in #12');
+      expect(issue.state).toBe('resolved');
+      expect(change).toEqual({ changes: { state: { new: 'resolved' } }, message: { raw: 'Fixed in #12' } });
+    });
+
+    it('fails with a capability error on Server', async () => {
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: 'https://bitbucket.example.com/rest/api/1.0' });
+      await expect(server.listIssues('PROJ', 'repo')).rejects.toMatchObject({
+        errorType: 'CAPABILITY_ERROR',
+        message: 'Issues are only available on Bitbucket Cloud',
+      });
+    });
+  });
+
+  describe('webhooks', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+    const repo = '/projects/PROJ/repos/repo';
+
+    it('creates a Cloud hook and reports only whether a secret is set', async () => {
+      let body: any;
+      nock(baseUrl)
+        .post('/repositories/ws/repo/hooks', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, {
+          uuid: '{h1}',
+          description: 'CI',
+          url: 'https://ci.example.com/hook',
+          active: true,
+          events: ['repo:push'],
+          secret_set: true,
+        });
+
+      const hook = await client.createWebhook('ws', 'repo', {
+        url: 'https://ci.example.com/hook',
+        events: ['repo:push'],
+        name: 'CI',
+        secret: 's3cret',
+      });
+      expect(body.secret).toBe('s3cret');
+      expect(hook).toEqual({
+        id: '{h1}',
+        name: 'CI',
+        url: 'https://ci.example.com/hook',
+        active: true,
+        events: ['repo:push'],
+        secretSet: true,
+        createdAt: undefined,
+      });
+    });
+
+    it('keeps the stored Server secret when updating other fields', async () => {
+      const stored = {
+        id: 3,
+        name: 'CI',
+        url: 'https://ci.example.com/hook',
+        active: true,
+        events: ['repo:refs_changed'],
+        configuration: { secret: 'keep-me' },
+      };
+      let body: any;
+      nock(serverUrl).get(`${repo}/webhooks/3`).reply(200, stored);
+      nock(serverUrl)
+        .put(`${repo}/webhooks/3`, (b) => {
+          body = b;
+          return true;
+        })
+        .reply(200, { ...stored, events: ['repo:refs_changed', 'pr:opened'] });
+
+      const hook = await server.updateWebhook('PROJ', 'repo', '3', {
+        events: ['repo:refs_changed', 'pr:opened'],
+      });
+      expect(body.configuration).toEqual({ secret: 'keep-me' });
+      expect(hook.events).toEqual(['repo:refs_changed', 'pr:opened']);
+      expect(JSON.stringify(hook)).not.toContain('keep-me');
+    });
+
+    it('tests a Server webhook by id', async () => {
+      nock(serverUrl).get(`${repo}/webhooks/3`).reply(200, { id: 3, url: 'https://ci.example.com/hook' });
+      nock(serverUrl)
+        .post(`${repo}/webhooks/test`)
+        .query({ url: 'https://ci.example.com/hook', webhookId: '3' })
+        .reply(200, { statusCode: 200 });
+
+      await expect(server.testWebhook('PROJ', 'repo', '3')).resolves.toEqual({ statusCode: 200 });
+      await expect(client.testWebhook('ws', 'repo', '{h1}')).rejects.toMatchObject({
+        errorType: 'CAPABILITY_ERROR',
+      });
+    });
+  });
+
+  describe('resolveUsers', () => {
+    it('matches Cloud workspace members and caches the results', async () => {
+      const resolver = new BitbucketClient({ email: 'user@example.com', token: 'apitoken', baseUrl });
+      nock(baseUrl)
+        .get('/workspaces/ws/members')
+        .once()
+        .reply(200, {
+          values: [
+            { user: { uuid: '{a}', nickname: 'alice', display_name: 'Alice Smith' } },
+            { user: { uuid: '{b}', nickname: 'bob', display_name: 'Bob Smith' } },
+          ],
+        });
+
+      const r = await resolver.resolveUsers('ws', ['@alice', 'Bob Smith', 'smith', 'carol']);
+      expect(r.resolved.map((u) => [u.input, u.id])).toEqual([
+        ['@alice', '{a}'],
+        ['Bob Smith', '{b}'],
+      ]);
+      expect(r.unresolved.map((u) => [u.input, u.candidates?.length])).toEqual([
+        ['smith', 2],
+        ['carol', undefined],
+      ]);
+
+      // Served from the cache; the members endpoint is only mocked once
+      const again = await resolver.resolveUsers('ws', ['alice']);
+      expect(again.resolved[0].id).toBe('{a}');
+    });
+
+    it('resolves Server users by email to their user name', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      nock(serverUrl)
+        .get('/users')
+        .query({ filter: 'jdoe@example.com', limit: '25' })
+        .reply(200, {
+          values: [{ name: 'jdoe', slug: 'jdoe', displayName: 'Jane Doe', emailAddress: 'jdoe@example.com' }],
+          isLastPage: true,
+        });
+
+      const r = await server.resolveUsers('PROJ', ['jdoe@example.com']);
+      expect(r.resolved).toMatchObject([{ input: 'jdoe@example.com', id: 'jdoe', user: { displayName: 'Jane Doe' } }]);
+      expect(r.unresolved).toEqual([]);
+    });
+  });
+
+  describe('default reviewers', () => {
+    it('adds Cloud defaults except the author when creating a PR', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/effective-default-reviewers')
+        .reply(200, {
+          values: [
+            { user: { uuid: '{me}', display_name: 'Me' } },
+            { user: { uuid: '{lead}', display_name: 'Lead' } },
+          ],
+        });
+      nock(baseUrl).get('/user').reply(200, { uuid: '{me}' });
+      let body: any;
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, { id: 9, title: 'T', state: 'OPEN' });
+
+      await client.createPullRequest('ws', 'repo', {
+        title: 'T',
+        sourceBranch: 'feature',
+        destBranch: 'main',
+        reviewers: ['{lead}', '{qa}'],
+      });
+      expect(body.reviewers).toEqual([{ uuid: '{lead}' }, { uuid: '{qa}' }]);
+    });
+
+    it('queries the Server plugin for the branch pair and skips it when missing', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      nock(serverUrl).get('/projects/PROJ/repos/repo').times(2).reply(200, { id: 12, slug: 'repo' });
+      nock('https://bitbucket.example.com')
+        .get('/rest/default-reviewers/1.0/projects/PROJ/repos/repo/reviewers')
+        .query({
+          sourceRepoId: '12',
+          targetRepoId: '12',
+          sourceRefId: 'refs/heads/feature',
+          targetRefId: 'refs/heads/main',
+        })
+        .reply(200, [
+          { name: 'lead', slug: 'lead', displayName: 'Lead' },
+          { name: 'Jane.Doe', slug: 'jane.doe', displayName: 'Jane' },
+        ]);
+      nock('https://bitbucket.example.com').get('/plugins/servlet/applinks/whoami').reply(200, 'Jane.Doe');
+      nock(serverUrl)
+        .get('/users')
+        .query({ filter: 'Jane.Doe', limit: '25' })
+        .reply(200, { values: [{ name: 'Jane.Doe', slug: 'jane.doe', displayName: 'Jane' }], isLastPage: true });
+
+      // The author is a default reviewer but cannot review their own PR
+      const users = await server.getDefaultReviewers('PROJ', 'repo', 'feature', 'main');
+      expect(users.map((u) => u.username)).toEqual(['lead']);
+
+      nock('https://bitbucket.example.com')
+        .get('/rest/default-reviewers/1.0/projects/PROJ/repos/repo/reviewers')
+        .query(true)
+        .reply(404, {});
+      let body: any;
+      nock(serverUrl)
+        .post('/projects/PROJ/repos/repo/pull-requests', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, { id: 3, title: 'T', state: 'OPEN' });
+      await server.createPullRequest('PROJ', 'repo', {
+        title: 'T',
+        sourceBranch: 'feature',
+        destBranch: 'main',
+        reviewers: ['bob'],
+      });
+      expect(body.reviewers).toEqual([{ user: { name: 'bob' } }]);
+    });
+
+    it('leaves the author out of Server default reviewers when creating a PR', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      nock(serverUrl).get('/projects/PROJ/repos/repo').reply(200, { id: 12, slug: 'repo' });
+      nock('https://bitbucket.example.com')
+        .get('/rest/default-reviewers/1.0/projects/PROJ/repos/repo/reviewers')
+        .query(true)
+        .reply(200, [
+          { name: 'Jane.Doe', slug: 'jane.doe', displayName: 'Jane' },
+          { name: 'lead', slug: 'lead', displayName: 'Lead' },
+        ]);
+      nock('https://bitbucket.example.com').get('/plugins/servlet/applinks/whoami').reply(200, 'Jane.Doe');
+      nock(serverUrl)
+        .get('/users')
+        .query({ filter: 'Jane.Doe', limit: '25' })
+        .reply(200, { values: [{ name: 'Jane.Doe', slug: 'jane.doe', displayName: 'Jane' }], isLastPage: true });
+      let body: any;
+      nock(serverUrl)
+        .post('/projects/PROJ/repos/repo/pull-requests', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, { id: 4, title: 'T', state: 'OPEN' });
+
+      await server.createPullRequest('PROJ', 'repo', { title: 'T', sourceBranch: 'feature', destBranch: 'main' });
+      expect(body.reviewers).toEqual([{ user: { name: 'lead' } }]);
+    });
+  });
+
+  describe('pull request tasks', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+    const pr = '/projects/PROJ/repos/repo/pull-requests/5';
+
+    it('maps Cloud tasks and creates one on a comment', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/1/tasks')
+        .reply(200, {
+          values: [{ id: 11, state: 'UNRESOLVED', content: { raw: 'Add tests' }, comment: { id: 3 } }],
+        });
+      let body: any;
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests/1/tasks', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, { id: 12, state: 'UNRESOLVED', content: { raw: 'Fix typo' }, comment: { id: 3 } });
+
+      const list = await client.listPullRequestTasks('ws', 'repo', 1);
+      expect(list.values[0]).toMatchObject({ id: 11, text: 'Add tests', state: 'OPEN', commentId: 3 });
+      const task = await client.createPullRequestTask('ws', 'repo', 1, 'Fix typo', 3);
+      expect(body).toEqual({ content: { raw: 'Fix typo' }, comment: { id: 3 } });
+      expect(task.id).toBe(12);
+    });
+
+    it('resolves and deletes Server blocker comments with their version', async () => {
+      nock(serverUrl).get(`${pr}/blocker-comments/7`).times(2).reply(200, { id: 7, version: 2, state: 'OPEN' });
+      nock(serverUrl)
+        .put(`${pr}/blocker-comments/7`, { state: 'RESOLVED', version: 2 })
+        .reply(200, { id: 7, version: 3, state: 'RESOLVED', text: 'Add tests' });
+      nock(serverUrl).delete(`${pr}/blocker-comments/7`).query({ version: '2' }).reply(204);
+
+      const task = await server.setPullRequestTaskState('PROJ', 'repo', 5, 7, 'RESOLVED');
+      expect(task).toMatchObject({ id: 7, state: 'RESOLVED', version: 3 });
+      await expect(server.deletePullRequestTask('PROJ', 'repo', 5, 7)).resolves.toEqual({ deleted: true, taskId: 7 });
+    });
+  });
+
+  describe('comment lifecycle', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+    const comment = '/projects/PROJ/repos/repo/pull-requests/5/comments/8';
+
+    it('replies in a Cloud thread and resolves it', async () => {
+      let body: any;
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests/1/comments', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, { id: 9, content: { raw: 'Done' }, parent: { id: 8 } });
+      nock(baseUrl).post('/repositories/ws/repo/pullrequests/1/comments/8/resolve').reply(200, {});
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/1/comments/8')
+        .reply(200, { id: 8, content: { raw: 'Fix this' }, resolution: { type: 'comment_resolution' } });
+
+      const reply = await client.addPullRequestComment('ws', 'repo', 1, 'Done', 8);
+      expect(body).toEqual({ content: { raw: 'Done' }, parent: { id: 8 } });
+      expect(reply.parentId).toBe(8);
+      const thread = await client.setPullRequestCommentResolved('ws', 'repo', 1, 8, true);
+      expect(thread.resolved).toBe(true);
+    });
+
+    it('retries a Server edit once with the fresh comment version', async () => {
+      nock(serverUrl).get(comment).reply(200, { id: 8, version: 1 });
+      nock(serverUrl)
+        .put(comment, { text: 'Edited', version: 1 })
+        .reply(409, { errors: [{ exceptionName: 'com.atlassian.bitbucket.comment.CommentOutOfDateException' }] });
+      nock(serverUrl).get(comment).reply(200, { id: 8, version: 2 });
+      nock(serverUrl)
+        .put(comment, { text: 'Edited', version: 2 })
+        .reply(200, { id: 8, version: 3, text: 'Edited' });
+
+      const edited = await server.editPullRequestComment('PROJ', 'repo', 5, 8, 'Edited');
+      expect(edited).toMatchObject({ id: 8, text: 'Edited', version: 3 });
+    });
+  });
+
+  describe('review status', () => {
+    it('withdraws the caller\'s Cloud approval', async () => {
+      const reviewer = new BitbucketClient({ email: 'user@example.com', token: 'apitoken', baseUrl });
+      nock(baseUrl).get('/user').reply(200, { uuid: '{me}', display_name: 'Me' });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/1')
+        .reply(200, {
+          id: 1,
+          participants: [{ user: { uuid: '{me}' }, role: 'REVIEWER', approved: true, state: 'approved' }],
+        });
+      const unapprove = nock(baseUrl).delete('/repositories/ws/repo/pullrequests/1/approve').reply(204);
+
+      const p = await reviewer.setPullRequestReviewStatus('ws', 'repo', 1, 'UNAPPROVED');
+      expect(unapprove.isDone()).toBe(true);
+      expect(p).toMatchObject({ user: { id: '{me}' }, role: 'REVIEWER', status: 'UNAPPROVED' });
+    });
+
+    it('requests changes on Cloud without looking up the caller', async () => {
+      const whoami = nock(baseUrl).get('/user').reply(200, { uuid: '{me}' });
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests/1/request-changes')
+        .reply(200, { user: { uuid: '{me}' }, role: 'REVIEWER', approved: false, state: 'changes_requested' });
+
+      const p = await client.setPullRequestReviewStatus('ws', 'repo', 1, 'NEEDS_WORK');
+      expect(p.status).toBe('NEEDS_WORK');
+      expect(whoami.isDone()).toBe(false);
+    });
+
+    it('sets NEEDS_WORK on Server through the participants endpoint', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      nock('https://bitbucket.example.com').get('/plugins/servlet/applinks/whoami').reply(200, 'Jane.Doe');
+      nock(serverUrl)
+        .get('/users')
+        .query({ filter: 'Jane.Doe', limit: '25' })
+        .reply(200, { values: [{ name: 'Jane.Doe', slug: 'jane.doe', displayName: 'Jane' }], isLastPage: true });
+      let body: any;
+      nock(serverUrl)
+        .put('/projects/PROJ/repos/repo/pull-requests/5/participants/jane.doe', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(200, { user: { name: 'Jane.Doe', slug: 'jane.doe' }, role: 'REVIEWER', approved: false, status: 'NEEDS_WORK' });
+
+      const p = await server.setPullRequestReviewStatus('PROJ', 'repo', 5, 'NEEDS_WORK');
+      expect(body).toEqual({ user: { name: 'Jane.Doe' }, approved: false, status: 'NEEDS_WORK' });
+      expect(p.status).toBe('NEEDS_WORK');
+    });
+  });
+
+  describe('checkPullRequestMerge', () => {
+    it('combines Cloud PR data with destination branch restrictions', async () => {
+      const pr = {
+        id: 1,
+        state: 'OPEN',
+        source: { branch: { name: 'feature' }, commit: { hash: 'abc' } },
+        destination: { branch: { name: 'release/1.0' } },
+        participants: [
+          { user: { uuid: '{b}', display_name: 'Bob' }, role: 'REVIEWER', approved: true, state: 'approved' },
+        ],
+        task_count: 2,
+      };
+      nock(baseUrl).get('/repositories/ws/repo/pullrequests/1').times(2).reply(200, pr);
+      nock(baseUrl)
+        .get('/repositories/ws/repo/commit/abc/statuses')
+        .reply(200, { values: [{ key: 'ci', state: 'SUCCESSFUL' }] });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/1/diffstat')
+        .reply(200, { values: [{ status: 'merge conflict', new: { path: 'a.txt' } }] });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/branch-restrictions')
+        .reply(200, {
+          values: [
+            { id: 1, kind: 'require_approvals_to_merge', pattern: 'release/*', value: 2 },
+            { id: 2, kind: 'require_tasks_to_be_completed', pattern: 'main' },
+          ],
+        });
+
+      const check = await client.checkPullRequestMerge('ws', 'repo', 1);
+      expect(check.canMerge).toBe(false);
+      expect(check.conflicted).toBe(true);
+      expect(check.vetoes.map((v) => v.kind)).toEqual(['CONFLICT', 'APPROVALS']);
+      // Open tasks are not enforced on release/* so they are only a warning
+      expect(check.warnings.map((v) => v.kind)).toEqual(['TASKS']);
+      expect(check).toMatchObject({ approvals: 1, openTaskCount: 2, builds: 'SUCCESSFUL' });
+    });
+
+    it('maps Server merge vetoes', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const pr = '/projects/PROJ/repos/repo/pull-requests/5';
+      nock(serverUrl)
+        .get(pr)
+        .times(2)
+        .reply(200, {
+          id: 5,
+          state: 'OPEN',
+          fromRef: { displayId: 'feature', latestCommit: 'abc' },
+          toRef: { displayId: 'main' },
+          participants: [],
+          properties: { openTaskCount: 0 },
+        });
+      nock('https://bitbucket.example.com')
+        .get('/rest/build-status/1.0/commits/abc')
+        .reply(200, { values: [], isLastPage: true });
+      nock(serverUrl)
+        .get(`${pr}/merge`)
+        .reply(200, {
+          canMerge: false,
+          conflicted: false,
+          vetoes: [{ summaryMessage: 'Not enough approvals', detailedMessage: 'Requires 2 approvals' }],
+        });
+
+      const check = await server.checkPullRequestMerge('PROJ', 'repo', 5);
+      expect(check.vetoes).toEqual([
+        { kind: 'APPROVALS', message: 'Not enough approvals', detail: 'Requires 2 approvals' },
+      ]);
+      expect(check.warnings).toEqual([]);
+    });
+
+    it('counts Server reviewer approvals and change requests', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const pr = '/projects/PROJ/repos/repo/pull-requests/5';
+      nock(serverUrl)
+        .get(pr)
+        .times(2)
+        .reply(200, {
+          id: 5,
+          state: 'OPEN',
+          fromRef: { displayId: 'feature', latestCommit: 'abc' },
+          toRef: { displayId: 'main' },
+          reviewers: [
+            { user: { name: 'ann', displayName: 'Ann' }, role: 'REVIEWER', approved: true, status: 'APPROVED' },
+            { user: { name: 'bob', displayName: 'Bob' }, role: 'REVIEWER', approved: false, status: 'NEEDS_WORK' },
+          ],
+          participants: [{ user: { name: 'cy', displayName: 'Cy' }, role: 'PARTICIPANT', approved: false }],
+          properties: { openTaskCount: 0 },
+        });
+      nock('https://bitbucket.example.com')
+        .get('/rest/build-status/1.0/commits/abc')
+        .reply(200, { values: [], isLastPage: true });
+      nock(serverUrl).get(`${pr}/merge`).reply(200, { canMerge: true, conflicted: false, vetoes: [] });
+
+      const check = await server.checkPullRequestMerge('PROJ', 'repo', 5);
+      expect(check.approvals).toBe(1);
+      expect(check.warnings).toEqual([{ kind: 'CHANGES_REQUESTED', message: 'Changes requested by Bob' }]);
+    });
+
+    it('counts the caller\'s approval towards Cloud default reviewer checks', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/1')
+        .times(2)
+        .reply(200, {
+          id: 1,
+          state: 'OPEN',
+          source: { branch: { name: 'feature' }, commit: { hash: 'abc' } },
+          destination: { branch: { name: 'main' } },
+          participants: [
+            { user: { uuid: '{me}', display_name: 'Me' }, role: 'REVIEWER', approved: true, state: 'approved' },
+          ],
+        });
+      nock(baseUrl).get('/repositories/ws/repo/commit/abc/statuses').reply(200, { values: [] });
+      nock(baseUrl).get('/repositories/ws/repo/pullrequests/1/diffstat').reply(200, { values: [] });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/branch-restrictions')
+        .reply(200, {
+          values: [{ id: 1, kind: 'require_default_reviewer_approvals_to_merge', pattern: 'main', value: 1 }],
+        });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/effective-default-reviewers')
+        .reply(200, { values: [{ user: { uuid: '{me}', display_name: 'Me' } }] });
+
+      const check = await client.checkPullRequestMerge('ws', 'repo', 1);
+      expect(check.vetoes).toEqual([]);
+      expect(check.canMerge).toBe(true);
+    });
+
+    it('reports unchecked builds when the source commit is gone', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pullrequests/1')
+        .reply(200, {
+          id: 1,
+          state: 'OPEN',
+          source: { branch: { name: 'feature' } },
+          destination: { branch: { name: 'main' } },
+          participants: [],
+        });
+      nock(baseUrl).get('/repositories/ws/repo/pullrequests/1/diffstat').reply(200, { values: [] });
+      nock(baseUrl)
+        .get('/repositories/ws/repo/branch-restrictions')
+        .reply(200, {
+          values: [{ id: 1, kind: 'require_passing_builds_to_merge', pattern: 'main', value: 1 }],
+        });
+
+      const check = await client.checkPullRequestMerge('ws', 'repo', 1);
+      expect(check.canMerge).toBe(false);
+      expect(check.vetoes.map((v) => v.kind)).toEqual(['BUILDS']);
+      expect(check.warnings.map((v) => v.kind)).toEqual(['APPROVALS']);
+      expect(check.builds).toBe('NONE');
+    });
+
+    it('warns about unchecked builds on Server when the source commit is gone', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const pr = '/projects/PROJ/repos/repo/pull-requests/5';
+      nock(serverUrl)
+        .get(pr)
+        .reply(200, {
+          id: 5,
+          state: 'OPEN',
+          fromRef: { displayId: 'feature' },
+          toRef: { displayId: 'main' },
+          participants: [],
+          properties: { openTaskCount: 0 },
+        });
+      nock(serverUrl).get(`${pr}/merge`).reply(200, { canMerge: true, conflicted: false, vetoes: [] });
+
+      const check = await server.checkPullRequestMerge('PROJ', 'repo', 5);
+      expect(check.canMerge).toBe(true);
+      expect(check.warnings).toContainEqual(
+        expect.objectContaining({ kind: 'BUILDS', message: expect.stringContaining('no source commit') })
+      );
+    });
+  });
+
+  describe('listPullRequestComments', () => {
+    it('counts Server comments, not activities, against the limit', async () => {
+      const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+      const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+      const activities = '/projects/PROJ/repos/repo/pull-requests/5/activities';
+      nock(serverUrl)
+        .get(activities)
+        .query({ limit: '3' })
+        .reply(200, {
+          values: [
+            { action: 'APPROVED' },
+            { action: 'COMMENTED', comment: { id: 1, text: 'first' } },
+          ],
+          isLastPage: false,
+          nextPageStart: 2,
+        });
+      const thread = {
+        values: [
+          {
+            action: 'COMMENTED',
+            comment: {
+              id: 2,
+              text: 'second',
+              comments: [
+                { id: 3, text: 'reply' },
+                { id: 4, text: 'another reply' },
+              ],
+            },
+          },
+        ],
+        isLastPage: true,
+      };
+      nock(serverUrl).get(activities).query({ limit: '3', start: '2' }).times(2).reply(200, thread);
+
+      const first = await server.listPullRequestComments('PROJ', 'repo', 5, { limit: 3 });
+      expect(first.values.map((c) => c.id)).toEqual([1, 2, 3]);
+      expect(first.values[2].parentId).toBe(2);
+      expect(rawPayload(first.values[1])).not.toHaveProperty('comments');
+
+      const rest = await server.listPullRequestComments('PROJ', 'repo', 5, {
+        limit: 3,
+        cursor: first.nextCursor,
+      });
+      expect(rest.values.map((c) => c.id)).toEqual([4]);
+      expect(rest.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('deployments and variables', () => {
+    const environments = {
+      values: [
+        { uuid: '{e1}', name: 'Test', slug: 'test', environment_type: { name: 'Test' }, lock: { name: 'UNLOCKED' } },
+        { uuid: '{e2}', name: 'Staging', slug: 'staging', environment_type: { name: 'Staging' }, lock: { name: 'LOCKED' } },
+      ],
+    };
+
+    it('returns the latest deployment of a named environment', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/environments/').reply(200, environments);
+      nock(baseUrl)
+        .get('/repositories/ws/repo/deployments/')
+        .query({ environment: '{e2}', sort: '-state.started_on', pagelen: '1' })
+        .reply(200, {
+          values: [
+            {
+              uuid: '{d1}',
+              environment: { uuid: '{e2}' },
+              state: { name: 'COMPLETED', status: { name: 'SUCCESSFUL' }, started_on: '2024-05-01T10:00:00Z' },
+              release: { name: '#42', commit: { hash: 'abc123' } },
+              deployable: { pipeline: { uuid: '{p1}' } },
+            },
+          ],
+        });
+
+      const [latest, ...rest] = await client.getLatestDeployments('ws', 'repo', 'staging');
+      expect(rest).toHaveLength(0);
+      expect(latest.environment).toMatchObject({ name: 'Staging', type: 'Staging', locked: true });
+      expect(latest.deployment).toMatchObject({
+        state: 'COMPLETED',
+        status: 'SUCCESSFUL',
+        release: '#42',
+        commit: 'abc123',
+        pipelineUuid: '{p1}',
+      });
+    });
+
+    it('rotates a secured deployment variable without exposing its value', async () => {
+      const logged: string[] = [];
+      const log = console.log;
+      console.log = (...parts: any[]) => logged.push(parts.join(' '));
+      let body: any;
+      nock(baseUrl).get('/repositories/ws/repo/environments/').reply(200, environments);
+      nock(baseUrl)
+        .get('/repositories/ws/repo/deployments_config/environments/%7Be2%7D/variables')
+        .reply(200, { values: [{ uuid: '{v1}', key: 'API_TOKEN', secured: true }] });
+      nock(baseUrl)
+        .put('/repositories/ws/repo/deployments_config/environments/%7Be2%7D/variables/%7Bv1%7D', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(200, { uuid: '{v1}', key: 'API_TOKEN', secured: true, value: 'n3w-s3cret' });
+
+      try {
+        const res = await client.setVariable('ws', 'repo', {
+          key: 'API_TOKEN',
+          value: 'n3w-s3cret',
+          environment: 'Staging',
+        });
+        expect(body).toEqual({ key: 'API_TOKEN', value: 'n3w-s3cret', secured: true });
+        expect(res).toEqual({
+          variable: { uuid: '{v1}', key: 'API_TOKEN', secured: true },
+          created: false,
+        });
+        expect(JSON.stringify(rawPayload(res.variable))).not.toContain('n3w-s3cret');
+        expect(logged.join('\n')).not.toContain('n3w-s3cret');
+      } finally {
+        console.log = log;
+      }
+    });
+
+    it('creates a repository variable when the key is new', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pipelines_config/variables')
+        .reply(200, { values: [{ uuid: '{v1}', key: 'OTHER', secured: false, value: 'x' }] });
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pipelines_config/variables', {
+          key: 'REGION',
+          value: 'eu-west-1',
+          secured: false,
+        })
+        .reply(201, { uuid: '{v2}', key: 'REGION', secured: false, value: 'eu-west-1' });
+
+      const res = await client.setVariable('ws', 'repo', { key: 'REGION', value: 'eu-west-1' });
+      expect(res.created).toBe(true);
+      expect(res.variable).toEqual({ uuid: '{v2}', key: 'REGION', secured: false });
+      expect(JSON.stringify(rawPayload(res.variable))).not.toContain('eu-west-1');
+    });
+
+    it('lists variables without any values', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/pipelines_config/variables')
+        .reply(200, {
+          values: [
+            { uuid: '{v1}', key: 'REGION', secured: false, value: 'eu-west-1' },
+            { uuid: '{v2}', key: 'TOKEN', secured: true },
+          ],
+        });
+
+      const r = await client.listVariables('ws', 'repo');
+      expect(r.values).toEqual([
+        { uuid: '{v1}', key: 'REGION', secured: false },
+        { uuid: '{v2}', key: 'TOKEN', secured: true },
+      ]);
+      expect(JSON.stringify(rawPayload(r))).not.toContain('eu-west-1');
+    });
+
+    it('reports unknown environments with the available names', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/environments/').reply(200, environments);
+
+      await expect(client.listVariables('ws', 'repo', 'prod')).rejects.toMatchObject({
+        errorType: 'NOT_FOUND_ERROR',
+        details: { available: ['Test', 'Staging'] },
+      });
+    });
+  });
+
+  describe('repository management', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+
+    it('creates a private Cloud repository in a project', async () => {
+      nock(baseUrl)
+        .post('/repositories/ws/svc-billing', {
+          scm: 'git',
+          is_private: true,
+          description: 'Billing service',
+          language: 'typescript',
+          project: { key: 'SVC' },
+          mainbranch: { name: 'main' },
+        })
+        .reply(200, { slug: 'svc-billing', full_name: 'ws/svc-billing' });
+
+      const repo = await client.createRepository('ws', 'svc-billing', {
+        description: 'Billing service',
+        language: 'typescript',
+        project: 'SVC',
+        defaultBranch: 'main',
+      });
+      expect((repo as any).full_name).toBe('ws/svc-billing');
+    });
+
+    it('forks a Server repository into another project', async () => {
+      nock(serverUrl)
+        .post('/projects/TPL/repos/service-template', {
+          name: 'svc-billing',
+          project: { key: 'SVC' },
+        })
+        .reply(201, { slug: 'svc-billing', project: { key: 'SVC' } });
+
+      const fork = await server.forkRepository('TPL', 'service-template', {
+        workspace: 'SVC',
+        name: 'svc-billing',
+      });
+      expect((fork as any).project.key).toBe('SVC');
+    });
+
+    it('sets the Server default branch through its own endpoint', async () => {
+      const repo = '/projects/SVC/repos/svc-billing';
+      nock(serverUrl)
+        .put(`${repo}/default-branch`, { id: 'refs/heads/develop' })
+        .reply(204);
+      nock(serverUrl)
+        .put(repo, { description: 'Billing', public: false })
+        .reply(200, { slug: 'svc-billing', description: 'Billing', public: false });
+
+      const updated = await server.updateRepository('SVC', 'svc-billing', {
+        defaultBranch: 'develop',
+        description: 'Billing',
+        isPrivate: true,
+      });
+      expect((updated as any).description).toBe('Billing');
+    });
+  });
+
+  describe('file history and blame', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+    const commit = (hash: string, name: string, date: string) => ({
+      hash,
+      date,
+      message: `change ${hash}`,
+      author: { raw: `${name} <${name.toLowerCase()}@example.com>` },
+    });
+
+    it('lists Server commits for a path', async () => {
+      nock(serverUrl)
+        .get('/projects/PROJ/repos/repo/commits')
+        .query({ path: 'src/app.ts', until: 'main', followRenames: 'true' })
+        .reply(200, {
+          values: [{ id: 'c2', displayId: 'c2', message: 'Fix', author: { name: 'ann' }, authorTimestamp: 0 }],
+          isLastPage: true,
+        });
+
+      const history = await server.getFileHistory('PROJ', 'repo', 'src/app.ts', 'main');
+      expect(history.values.map((c) => c.hash)).toEqual(['c2']);
+    });
+
+    it('expands Server blame ranges into lines', async () => {
+      nock(serverUrl)
+        .get('/projects/PROJ/repos/repo/browse/src/app.ts')
+        .query({ at: 'main', blame: 'true' })
+        .reply(200, {
+          lines: [{ text: 'a' }, { text: 'b' }, { text: 'c' }],
+          start: 0,
+          isLastPage: true,
+          blame: [
+            { lineNumber: 1, spannedLines: 2, commitHash: 'c1', author: { displayName: 'Ann' }, authorTimestamp: 1700000000000 },
+            { lineNumber: 3, spannedLines: 1, commitHash: 'c2', author: { displayName: 'Bob' }, authorTimestamp: 1710000000000 },
+          ],
+        });
+
+      const blame = await server.getFileBlame('PROJ', 'repo', 'src/app.ts', 'main');
+      expect(blame.lines.map((l) => [l.line, l.text, l.hash, l.author])).toEqual([
+        [1, 'a', 'c1', 'Ann'],
+        [2, 'b', 'c1', 'Ann'],
+        [3, 'c', 'c2', 'Bob'],
+      ]);
+      expect(blame.approximate).toBe(false);
+    });
+
+    it('attributes Cloud lines by walking the file history', async () => {
+      nock(baseUrl)
+        .get('/repositories/ws/repo/filehistory/main/src/app.ts')
+        .query(true)
+        .reply(200, {
+          values: [
+            { path: 'src/app.ts', commit: commit('c3', 'Cy', '2024-03-01T00:00:00Z') },
+            { path: 'src/app.ts', commit: commit('c2', 'Bob', '2024-02-01T00:00:00Z') },
+            { path: 'app.ts', commit: commit('c1', 'Ann', '2024-01-01T00:00:00Z') },
+          ],
+        });
+      const contents: Record<string, string> = {
+        c3: 'one\nTWO\nthree\n',
+        c2: 'one\ntwo\nthree\n',
+        c1: 'one\ntwo\n',
+      };
+      const fetched = vi
+        .spyOn(client, 'getFileContent')
+        .mockImplementation(async (_w, _r, _path, hash) => contents[hash]);
+
+      try {
+        const blame = await client.getFileBlame('ws', 'repo', 'src/app.ts', 'main');
+        expect(blame.lines.map((l) => [l.text, l.hash, l.author])).toEqual([
+          ['one', 'c1', 'Ann'],
+          ['TWO', 'c3', 'Cy'],
+          ['three', 'c2', 'Bob'],
+        ]);
+        expect(fetched.mock.calls.map((c) => c[2])).toEqual(['src/app.ts', 'src/app.ts', 'app.ts']);
+        expect(blame.approximate).toBe(false);
+      } finally {
+        fetched.mockRestore();
+      }
+    });
+  });
+
+  describe('diff formats', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+    const cloudDiff = 'diff --git a/a.txt b/a.txt\n--- a/a.txt\n+++ b/a.txt\n@@ -1 +1 @@\n-old\n+new\n';
+
+    it('passes Cloud unified diffs through and parses them for stat', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/pullrequests/1/diff').twice().reply(200, cloudDiff);
+
+      expect(await client.getPullRequestDiff('ws', 'repo', 1)).toEqual({ diff: cloudDiff, skipped: [] });
+      expect(await client.getPullRequestDiff('ws', 'repo', 1, { format: 'stat' })).toEqual({
+        filesChanged: 1,
+        additions: 1,
+        deletions: 1,
+        files: [{ path: 'a.txt', oldPath: undefined, status: 'MODIFIED', binary: false, additions: 1, deletions: 1 }],
+        skipped: [],
+      });
+    });
+
+    it('renders Server diff JSON as unified text', async () => {
+      nock(serverUrl)
+        .get('/projects/PROJ/repos/repo/compare/diff')
+        .query({ from: 'feature', to: 'main' })
+        .reply(200, {
+          diffs: [
+            {
+              source: { toString: 'a.txt' },
+              destination: { toString: 'a.txt' },
+              hunks: [
+                {
+                  sourceLine: 1,
+                  sourceSpan: 1,
+                  destinationLine: 1,
+                  destinationSpan: 1,
+                  segments: [
+                    { type: 'REMOVED', lines: [{ source: 1, destination: 1, line: 'old' }] },
+                    { type: 'ADDED', lines: [{ source: 2, destination: 1, line: 'new' }] },
+                  ],
+                },
+              ],
+            },
+          ],
+        });
+
+      const diff = await server.compareBranches('PROJ', 'repo', 'feature', 'main');
+      expect((diff as any).diff).toBe(cloudDiff.replace('@@ -1 +1 @@', '@@ -1,1 +1,1 @@'));
+    });
+  });
+
+  describe('inline comment anchors', () => {
+    const serverUrl = 'https://bitbucket.example.com/rest/api/1.0';
+    const server = new BitbucketClient({ email: 'u', token: 't', baseUrl: serverUrl });
+    const cloudDiff = [
+      'diff --git a/src/app.ts b/src/app.ts',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -10,4 +10,4 @@',
+      ' keep',
+      '-old',
+      '+new',
+      '+more',
+      ' tail',
+      '-gone',
+      '',
+    ].join('\n');
+
+    it('anchors removed lines to the old side on Cloud', async () => {
+      let body: any;
+      nock(baseUrl).get('/repositories/ws/repo/pullrequests/1/diff').reply(200, cloudDiff);
+      nock(baseUrl)
+        .post('/repositories/ws/repo/pullrequests/1/comments', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, { id: 5, content: { raw: 'why?' } });
+
+      await client.addInlineCommentAfterReview('ws', 'repo', 1, 'src/app.ts', 11, 'why?', 'REMOVED');
+      expect(body.inline).toEqual({ path: 'src/app.ts', from: 11 });
+    });
+
+    it('rejects lines outside the diff with the nearest valid lines', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/pullrequests/1/diff').reply(200, cloudDiff);
+
+      await expect(
+        client.addInlineCommentAfterReview('ws', 'repo', 1, 'src/app.ts', 40, 'hm')
+      ).rejects.toMatchObject({
+        errorType: 'VALIDATION_ERROR',
+        details: {
+          nearest: [
+            { line: 10, lineType: 'CONTEXT', text: 'keep' },
+            { line: 11, lineType: 'ADDED', text: 'new' },
+            { line: 12, lineType: 'ADDED', text: 'more' },
+            { line: 13, lineType: 'CONTEXT', text: 'tail' },
+          ],
+        },
+      });
+    });
+
+    it('posts a Server multi-line anchor with the real line types', async () => {
+      let body: any;
+      nock(serverUrl)
+        .get('/projects/PROJ/repos/repo/pull-requests/2/diff')
+        .reply(200, {
+          diffs: [
+            {
+              source: { toString: 'src/app.ts' },
+              destination: { toString: 'src/app.ts' },
+              hunks: [
+                {
+                  sourceLine: 10,
+                  sourceSpan: 1,
+                  destinationLine: 10,
+                  destinationSpan: 2,
+                  segments: [
+                    { type: 'CONTEXT', lines: [{ source: 10, destination: 10, line: 'keep' }] },
+                    { type: 'ADDED', lines: [{ source: 11, destination: 11, line: 'new' }] },
+                  ],
+                },
+              ],
+            },
+          ],
+        });
+      nock(serverUrl)
+        .post('/projects/PROJ/repos/repo/pull-requests/2/comments', (b) => {
+          body = b;
+          return true;
+        })
+        .reply(201, { id: 9, text: 'range' });
+
+      await server.addInlineCommentAfterReview('PROJ', 'repo', 2, 'src/app.ts', 10, 'range', 'ADDED', 11);
+      expect(body.anchor).toEqual({
+        line: 11,
+        lineType: 'ADDED',
+        fileType: 'TO',
+        path: 'src/app.ts',
+        multilineMarker: { startLine: 10, startLineType: 'CONTEXT' },
+      });
+    });
+  });
+
+  describe('diff filtering and paging', () => {
+    const file = (path: string, lines: number) =>
+      [
+        `diff --git a/${path} b/${path}`,
+        `--- a/${path}`,
+        `+++ b/${path}`,
+        `@@ -0,0 +1,${lines} @@`,
+        ...Array.from({ length: lines }, (_, i) => `+line ${i + 1}`),
+      ].join('\n') + '\n';
+    const diff =
+      file('src/a.ts', 3) +
+      file('package-lock.json', 50) +
+      file('src/b.ts', 3) +
+      file('docs/c.md', 3) +
+      'diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n';
+
+    it('skips ignored and binary files and applies include globs', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/diff/abc').reply(200, diff);
+
+      const page: any = await client.getCommitDiff('ws', 'repo', 'abc', { include: ['src/**'] });
+      expect(page.diff).toBe(file('src/a.ts', 3) + file('src/b.ts', 3));
+      expect(page.skipped).toEqual([
+        { path: 'package-lock.json', reason: 'excluded' },
+        { path: 'docs/c.md', reason: 'excluded' },
+        { path: 'logo.png', reason: 'excluded' },
+      ]);
+    });
+
+    it('returns whole files within maxBytes and continues with the cursor', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/diff/abc').twice().reply(200, diff);
+      const budget = Buffer.byteLength(file('src/a.ts', 3)) + 10;
+
+      const first: any = await client.getCommitDiff('ws', 'repo', 'abc', { maxBytes: budget });
+      expect(first.diff).toBe(file('src/a.ts', 3));
+      expect(first.skipped.map((f: any) => f.reason)).toEqual(['ignored', 'binary']);
+      expect(first.nextCursor).toBeDefined();
+
+      const second: any = await client.getCommitDiff('ws', 'repo', 'abc', {
+        maxBytes: budget,
+        cursor: first.nextCursor,
+      });
+      expect(second.diff).toBe(file('src/b.ts', 3));
+      expect(second.nextCursor).toBeDefined();
+    });
+
+    it('splits a file larger than maxBytes across pages', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/diff/abc').times(10).reply(200, diff);
+      const options = { include: ['package-lock.json'], includeIgnored: true, maxBytes: 200 };
+
+      const added: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page: any = await client.getCommitDiff('ws', 'repo', 'abc', { ...options, cursor });
+        expect(Buffer.byteLength(page.diff)).toBeLessThanOrEqual(200);
+        expect(page.truncatedPath).toBe(page.nextCursor ? 'package-lock.json' : undefined);
+        const [file] = parseUnifiedDiff(page.diff);
+        expect(file.path).toBe('package-lock.json');
+        added.push(...file.hunks.flatMap((h) => h.lines.map((l) => `${l.newLine}:${l.text}`)));
+        cursor = page.nextCursor;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBeGreaterThan(1);
+      expect(added).toEqual(Array.from({ length: 50 }, (_, i) => `${i + 1}:line ${i + 1}`));
+    });
+
+    it('splits structured output at hunk and line boundaries', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/diff/abc').twice().reply(200, diff);
+      const options = { format: 'structured' as const, include: ['package-lock.json'], includeIgnored: true, maxBytes: 600 };
+
+      const first: any = await client.getCommitDiff('ws', 'repo', 'abc', options);
+      expect(Buffer.byteLength(JSON.stringify(first.files))).toBeLessThanOrEqual(600);
+      const [hunk] = first.files[0].hunks;
+      expect(hunk).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1 });
+
+      const second: any = await client.getCommitDiff('ws', 'repo', 'abc', { ...options, cursor: first.nextCursor });
+      expect(second.files[0].hunks[0]).toMatchObject({ oldLines: 0, newStart: hunk.newLines + 1 });
+    });
+
+    it('rejects a cursor from another diff or other filters', async () => {
+      nock(baseUrl).get('/repositories/ws/repo/diff/abc').twice().reply(200, diff);
+      nock(baseUrl).get('/repositories/ws/repo/diff/def').reply(200, diff);
+      const first: any = await client.getCommitDiff('ws', 'repo', 'abc', { maxBytes: 10 });
+
+      await expect(
+        client.getCommitDiff('ws', 'repo', 'def', { cursor: first.nextCursor })
+      ).rejects.toMatchObject({ errorType: 'VALIDATION_ERROR' });
+      await expect(
+        client.getCommitDiff('ws', 'repo', 'abc', { cursor: first.nextCursor, include: ['src/**'] })
+      ).rejects.toMatchObject({
+        errorType: 'VALIDATION_ERROR',
+        message: 'Cursor was issued for different include, exclude or includeIgnored options',
+      });
+    });
+
+    it('rejects a cursor once the pull request diff has changed', async () => {
+      const pr = '/repositories/ws/repo/pullrequests/1/diff';
+      nock(baseUrl).get(pr).reply(200, diff);
+      nock(baseUrl).get(pr).reply(200, file('src/new.ts', 2) + diff);
+      const first: any = await client.getPullRequestDiff('ws', 'repo', 1, { maxBytes: 10 });
+
+      await expect(client.getPullRequestDiff('ws', 'repo', 1, { cursor: first.nextCursor })).rejects.toMatchObject({
+        errorType: 'VALIDATION_ERROR',
+        message: 'The diff has changed since the cursor was issued',
+      });
+    });
+
+    it('rejects a maxBytes that is not a positive integer', async () => {
+      for (const maxBytes of [0, -5, 1.5]) {
+        await expect(client.getCommitDiff('ws', 'repo', 'abc', { maxBytes })).rejects.toMatchObject({
+          errorType: 'VALIDATION_ERROR',
+        });
+      }
+    });
+  });
 });
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { blameFromHistory, matchLines } from "../src/blame.js";
+
+describe("matchLines", () => {
+  it("maps unchanged lines and leaves added lines unmatched", () => {
+    expect(matchLines(["a", "x", "b", "c"], ["a", "b", "c"])).toEqual([
+      0,
+      undefined,
+      1,
+      2,
+    ]);
+  });
+
+  it("treats a changed line as new", () => {
+    expect(matchLines(["a", "B", "c"], ["a", "b", "c"])).toEqual([
+      0,
+      undefined,
+      2,
+    ]);
+  });
+});
+
+describe("blameFromHistory", () => {
+  it("credits each line to the revision that introduced it", async () => {
+    const revisions = [
+      ["one", "two!", "three", "four"],
+      ["one", "two", "three", "four"],
+      ["one", "two", "three"],
+      ["one", "three"],
+    ];
+    const result = await blameFromHistory(
+      revisions.length,
+      async (i) => revisions[i],
+    );
+    expect(result.owners).toEqual([3, 0, 3, 1]);
+    expect(result.unresolved).toBe(2);
+  });
+
+  it("stops loading once every line is attributed", async () => {
+    const loaded: number[] = [];
+    const revisions = [["new"], ["old"], ["older"]];
+    const result = await blameFromHistory(revisions.length, async (i) => {
+      loaded.push(i);
+      return revisions[i];
+    });
+    expect(result.owners).toEqual([0]);
+    expect(loaded).toEqual([0, 1]);
+    expect(result.unresolved).toBe(0);
+  });
+});
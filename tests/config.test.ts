@@ -71,6 +71,31 @@ describe("config", () => {
     expect(cfg.authType).toBe("bearer");
   });
 
+  it("reads retry max attempts from env", () => {
+    process.env.ATLASSIAN_USER_EMAIL = "user@example.com";
+    process.env.ATLASSIAN_API_TOKEN = "apitoken";
+    process.env.BITBUCKET_RETRY_MAX_ATTEMPTS = "5";
+
+    expect(loadConfig().retryMaxAttempts).toBe(5);
+
+    delete process.env.BITBUCKET_RETRY_MAX_ATTEMPTS;
+    expect(loadConfig().retryMaxAttempts).toBe(3);
+  });
+
+  it("reads the diff ignore list from env", () => {
+    process.env.ATLASSIAN_USER_EMAIL = "user@example.com";
+    process.env.ATLASSIAN_API_TOKEN = "apitoken";
+    process.env.BITBUCKET_DIFF_IGNORE = "*.lock, vendor/** ,";
+
+    expect(loadConfig().diffIgnore).toEqual(["*.lock", "vendor/**"]);
+
+    process.env.BITBUCKET_DIFF_IGNORE = "";
+    expect(loadConfig().diffIgnore).toEqual([]);
+
+    delete process.env.BITBUCKET_DIFF_IGNORE;
+    expect(loadConfig().diffIgnore).toBeUndefined();
+  });
+
   it("builds basic auth header", () => {
     const h = basicAuthHeader("u", "t");
     expect(h.startsWith("Basic ")).toBe(true);
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_DIFF_IGNORE,
+  diffSkipReason,
+  formatUnifiedDiff,
+  parseUnifiedDiff,
+  sliceHunk,
+  splitUnifiedDiff,
+  summarizeDiff,
+} from "../src/diff.js";
+import { mapServerDiff } from "../src/models.js";
+
+const unified = `diff --git a/src/app.ts b/src/app.ts
+index 1111111..2222222 100644
+--- a/src/app.ts
++++ b/src/app.ts
+@@ -1,3 +1,4 @@ export function main() {
+ const a = 1;
+-const b = 2;
++const b = 3;
++const c = 4;
+ export { a };
+diff --git a/old.md b/docs/new.md
+similarity index 100%
+rename from old.md
+rename to docs/new.md
+diff --git a/logo.png b/logo.png
+new file mode 100644
+index 0000000..3333333
+Binary files /dev/null and b/logo.png differ
+diff --git a/gone.txt b/gone.txt
+deleted file mode 100644
+--- a/gone.txt
++++ /dev/null
+@@ -1 +0,0 @@
+--- not a header
+`;
+
+describe("parseUnifiedDiff", () => {
+  const files = parseUnifiedDiff(unified);
+
+  it("parses hunks with old and new line numbers", () => {
+    expect(files[0]).toMatchObject({
+      path: "src/app.ts",
+      status: "MODIFIED",
+      additions: 2,
+      deletions: 1,
+    });
+    expect(files[0].hunks[0]).toMatchObject({
+      oldStart: 1,
+      oldLines: 3,
+      newStart: 1,
+      newLines: 4,
+      header: "export function main() {",
+    });
+    expect(files[0].hunks[0].lines).toEqual([
+      { type: "CONTEXT", text: "const a = 1;", oldLine: 1, newLine: 1 },
+      { type: "REMOVED", text: "const b = 2;", oldLine: 2 },
+      { type: "ADDED", text: "const b = 3;", newLine: 2 },
+      { type: "ADDED", text: "const c = 4;", newLine: 3 },
+      { type: "CONTEXT", text: "export { a };", oldLine: 3, newLine: 4 },
+    ]);
+  });
+
+  it("detects renames, binary, added and deleted files", () => {
+    expect(
+      files.slice(1).map((f) => [f.path, f.oldPath, f.status, f.binary]),
+    ).toEqual([
+      ["docs/new.md", "old.md", "RENAMED", false],
+      ["logo.png", undefined, "ADDED", true],
+      ["gone.txt", undefined, "DELETED", false],
+    ]);
+    // Hunk line counts decide what is content, even if it looks like a header
+    expect(files[3].hunks[0].lines).toEqual([
+      { type: "REMOVED", text: "-- not a header", oldLine: 1 },
+    ]);
+  });
+
+  it("round-trips through formatUnifiedDiff", () => {
+    expect(parseUnifiedDiff(formatUnifiedDiff(files))).toEqual(files);
+  });
+
+  it("summarizes additions and deletions", () => {
+    const stat = summarizeDiff(files);
+    expect(stat).toMatchObject({
+      filesChanged: 4,
+      additions: 2,
+      deletions: 2,
+    });
+    expect(stat.files[0]).not.toHaveProperty("hunks");
+  });
+});
+
+describe("mapServerDiff", () => {
+  it("maps Server diff JSON into the same model as the unified parser", () => {
+    const files = mapServerDiff({
+      diffs: [
+        {
+          source: { toString: "src/app.ts" },
+          destination: { toString: "src/app.ts" },
+          hunks: [
+            {
+              context: "export function main() {",
+              sourceLine: 1,
+              sourceSpan: 3,
+              destinationLine: 1,
+              destinationSpan: 4,
+              segments: [
+                {
+                  type: "CONTEXT",
+                  lines: [{ source: 1, destination: 1, line: "const a = 1;" }],
+                },
+                {
+                  type: "REMOVED",
+                  lines: [{ source: 2, destination: 2, line: "const b = 2;" }],
+                },
+                {
+                  type: "ADDED",
+                  lines: [
+                    { source: 3, destination: 2, line: "const b = 3;" },
+                    { source: 3, destination: 3, line: "const c = 4;" },
+                  ],
+                },
+                {
+                  type: "CONTEXT",
+                  lines: [{ source: 3, destination: 4, line: "export { a };" }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+    expect(files).toEqual([parseUnifiedDiff(unified)[0]]);
+  });
+
+  it("splits unified diffs per file in parse order", () => {
+    const chunks = splitUnifiedDiff(unified);
+    expect(chunks).toHaveLength(parseUnifiedDiff(unified).length);
+    expect(chunks.join("")).toBe(unified.replace(/\n?$/, "\n"));
+    chunks.forEach((chunk, i) => {
+      expect(parseUnifiedDiff(chunk)).toEqual([parseUnifiedDiff(unified)[i]]);
+    });
+  });
+
+  it("explains why files are skipped", () => {
+    const file = (path: string, binary = false) => ({
+      path,
+      status: "MODIFIED" as const,
+      binary,
+      additions: 0,
+      deletions: 0,
+      hunks: [],
+    });
+    const ignore = DEFAULT_DIFF_IGNORE;
+
+    expect(diffSkipReason(file("src/a.ts"), { ignore })).toBeUndefined();
+    expect(diffSkipReason(file("yarn.lock"), { ignore })).toBe("ignored");
+    expect(diffSkipReason(file("web/dist/app.js"), { ignore })).toBe("ignored");
+    expect(diffSkipReason(file("logo.png", true), { ignore })).toBe("binary");
+    expect(diffSkipReason(file("yarn.lock"), {})).toBeUndefined();
+    expect(diffSkipReason(file("src/a.ts"), { include: ["docs/**"] })).toBe(
+      "excluded",
+    );
+    expect(
+      diffSkipReason(
+        { ...file("src/new.ts"), oldPath: "lib/old.ts" },
+        { exclude: ["lib/**"] },
+      ),
+    ).toBe("excluded");
+  });
+
+  it("slices hunks with start lines git would write", () => {
+    const [file] = parseUnifiedDiff(unified);
+    const hunk = file.hunks[0];
+
+    expect(sliceHunk(hunk, 0, 2)).toMatchObject({
+      oldStart: 1,
+      oldLines: 2,
+      newStart: 1,
+      newLines: 1,
+    });
+    expect(sliceHunk(hunk, 2, 4)).toMatchObject({
+      oldStart: 2,
+      oldLines: 0,
+      newStart: 2,
+      newLines: 2,
+    });
+    const rejoined = formatUnifiedDiff([
+      { ...file, hunks: [sliceHunk(hunk, 0, 2), sliceHunk(hunk, 2, 5)] },
+    ]);
+    expect(parseUnifiedDiff(rejoined)[0].hunks.flatMap((h) => h.lines)).toEqual(
+      hunk.lines,
+    );
+  });
+});
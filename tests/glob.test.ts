@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { matchesGlob, matchesAnyGlob } from "../src/glob.js";
+
+describe("matchesGlob", () => {
+  it("matches file names when the pattern has no slash", () => {
+    expect(matchesGlob("src/deep/index.ts", "*.ts")).toBe(true);
+    expect(matchesGlob("src/deep/index.tsx", "*.ts")).toBe(false);
+  });
+
+  it("anchors patterns with a slash to the full path", () => {
+    expect(matchesGlob("src/a.ts", "src/*.ts")).toBe(true);
+    expect(matchesGlob("src/lib/a.ts", "src/*.ts")).toBe(false);
+    expect(matchesGlob("src/lib/a.ts", "src/**/*.ts")).toBe(true);
+    expect(matchesGlob("src/a.ts", "src/**/*.ts")).toBe(true);
+  });
+
+  it("supports ? and brace alternatives", () => {
+    expect(matchesGlob("v1.md", "v?.{md,txt}")).toBe(true);
+    expect(matchesGlob("v1.js", "v?.{md,txt}")).toBe(false);
+  });
+
+  it("expands wildcards inside brace alternatives", () => {
+    expect(matchesGlob("a.tsx", "{*.ts,*.tsx}")).toBe(true);
+    expect(matchesGlob("a.js", "{*.ts,*.tsx}")).toBe(false);
+    expect(matchesGlob("src/ab.ts", "src/{a?,b}.ts")).toBe(true);
+    expect(matchesGlob("src/.ts", "src/{a?,b}.ts")).toBe(false);
+    expect(matchesGlob("lib/x/y.ts", "{src,lib}/**/*.{ts,{js,mjs}}")).toBe(
+      true
+    );
+  });
+
+  it("matches any of several patterns", () => {
+    expect(matchesAnyGlob("package-lock.json", ["*.lock", "*-lock.json"])).toBe(
+      true
+    );
+  });
+});
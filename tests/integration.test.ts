@@ -105,7 +105,10 @@ describe("MCP Server Integration Tests", () => {
     });
 
     it("successfully tests connection", async () => {
-      nock(baseUrl).get("/workspaces").reply(200, { values: [] });
+      nock(baseUrl)
+        .get("/workspaces")
+        .query({ pagelen: "1" })
+        .reply(200, { values: [] });
 
       const result = await client.testConnection();
       expect(result.success).toBe(true);
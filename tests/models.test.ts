@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  mapCloudPullRequest,
+  mapServerPullRequest,
+  mapCloudCommit,
+  flattenServerComments,
+  buildCommentTree,
+  rawPayload,
+} from "../src/models.js";
+
+describe("models", () => {
+  const cloudPr = {
+    id: 7,
+    title: "Add feature",
+    description: "desc",
+    state: "OPEN",
+    author: { uuid: "{a}", display_name: "Alice", nickname: "alice" },
+    source: {
+      branch: { name: "feature" },
+      commit: { hash: "abc" },
+      repository: { full_name: "ws/repo" },
+    },
+    destination: { branch: { name: "main" }, commit: { hash: "def" } },
+    reviewers: [{ uuid: "{b}", display_name: "Bob" }],
+    participants: [
+      {
+        user: { uuid: "{b}", display_name: "Bob" },
+        role: "REVIEWER",
+        approved: false,
+        state: "changes_requested",
+      },
+    ],
+    created_on: "2024-01-01T00:00:00.000Z",
+  };
+
+  const serverPr = {
+    id: 7,
+    version: 3,
+    title: "Add feature",
+    description: "desc",
+    state: "OPEN",
+    author: { user: { name: "alice", slug: "alice", displayName: "Alice" } },
+    fromRef: {
+      displayId: "feature",
+      latestCommit: "abc",
+      repository: { slug: "repo", project: { key: "PROJ" } },
+    },
+    toRef: { displayId: "main", latestCommit: "def" },
+    reviewers: [
+      {
+        user: { name: "bob", slug: "bob", displayName: "Bob" },
+        role: "REVIEWER",
+        approved: false,
+        status: "NEEDS_WORK",
+      },
+    ],
+    participants: [],
+    createdDate: Date.parse("2024-01-01T00:00:00.000Z"),
+  };
+
+  it("maps Cloud and Server pull requests to the same shape", () => {
+    const cloud = mapCloudPullRequest(cloudPr);
+    const server = mapServerPullRequest(serverPr);
+
+    for (const pr of [cloud, server]) {
+      expect(pr.id).toBe(7);
+      expect(pr.source.branch).toBe("feature");
+      expect(pr.source.commit).toBe("abc");
+      expect(pr.destination.branch).toBe("main");
+      expect(pr.author?.displayName).toBe("Alice");
+      expect(pr.reviewers[0].status).toBe("NEEDS_WORK");
+      expect(pr.createdAt).toBe("2024-01-01T00:00:00.000Z");
+    }
+    expect(server.version).toBe(3);
+    expect(server.source.repository).toBe("PROJ/repo");
+  });
+
+  it("splits Cloud commit author into name and email", () => {
+    const c = mapCloudCommit({
+      hash: "0123456789abcdef",
+      message: "fix",
+      author: { raw: "Alice <alice@example.com>" },
+      parents: [{ hash: "p1" }],
+    });
+    expect(c.author).toMatchObject({
+      name: "Alice",
+      email: "alice@example.com",
+    });
+    expect(c.displayHash).toBe("0123456789ab");
+    expect(c.parents).toEqual(["p1"]);
+  });
+
+  it("flattens nested Server replies with parent ids", () => {
+    const comments = flattenServerComments(
+      {
+        id: 1,
+        text: "top",
+        comments: [{ id: 2, text: "reply", comments: [] }],
+      },
+      { path: "src/a.ts", line: 4, fileType: "FROM" }
+    );
+    expect(comments.map((c) => [c.id, c.parentId])).toEqual([
+      [1, undefined],
+      [2, 1],
+    ]);
+    expect(comments[0].inline).toEqual({ path: "src/a.ts", from: 4 });
+  });
+
+  it("returns the original payloads through rawPayload", () => {
+    const pr = mapCloudPullRequest(cloudPr);
+    expect(rawPayload(pr)).toBe(cloudPr);
+    expect(rawPayload({ values: [pr], nextCursor: "x" })).toEqual({
+      values: [cloudPr],
+      nextCursor: "x",
+    });
+  });
+
+  it("nests replies under their parents", () => {
+    const tree = buildCommentTree([
+      { id: 1, text: "top", deleted: false, resolved: true },
+      { id: 2, text: "reply", parentId: 1, deleted: false },
+      { id: 3, text: "nested", parentId: 2, deleted: false },
+      { id: 4, text: "orphan", parentId: 99, deleted: false },
+    ]);
+    expect(tree.map((t) => t.id)).toEqual([1, 4]);
+    expect(tree[0].replies[0].id).toBe(2);
+    expect(tree[0].replies[0].replies[0].text).toBe("nested");
+  });
+});